@@ -0,0 +1,120 @@
+import { Node, ENDProgram, Program, Identifier, Literal, ENDGetter, ENDCaller, ENDGetterPrefix, IdentifierContext } from '../ast';
+import { isIdentifier, isLiteral } from '../utils';
+import { templateExpressions, walkExpressions } from './utils';
+
+/**
+ * Context of reactive data which expression depends on
+ */
+export type DependencyContext = 'property' | 'state' | 'store' | 'variable';
+
+export interface ExpressionDependencies {
+    /** Template node which owns expression: attribute, directive, statement etc. */
+    owner: Node;
+
+    /** Names of root identifiers, grouped by context */
+    property: Set<string>;
+    state: Set<string>;
+    store: Set<string>;
+    variable: Set<string>;
+
+    /**
+     * Statically known access paths, like `props.user.name`. Path is cut at
+     * first dynamic fragment: `#items[@index].name` is `state.items`
+     */
+    paths: Set<string>;
+}
+
+/**
+ * Object names of dependency paths
+ */
+export const pathPrefixes: { [K in DependencyContext]: string } = {
+    property: 'props',
+    state: 'state',
+    store: 'store',
+    variable: 'scope'
+};
+
+/**
+ * Collects reactive dependencies of every expression in given template
+ */
+export default function analyzeDependencies(ast: ENDProgram): Map<Program, ExpressionDependencies> {
+    const result = new Map<Program, ExpressionDependencies>();
+    templateExpressions(ast, (expr, owner) => result.set(expr, getDependencies(expr, owner)));
+    return result;
+}
+
+/**
+ * Returns reactive dependencies of given expression
+ */
+export function getDependencies(expr: Program, owner: Node = expr): ExpressionDependencies {
+    const deps: ExpressionDependencies = {
+        owner,
+        property: new Set(),
+        state: new Set(),
+        store: new Set(),
+        variable: new Set(),
+        paths: new Set()
+    };
+
+    // Getter path heads are visited before getter itself: collect standalone
+    // identifiers and add their paths after walk
+    const heads = new Set<Node>();
+    const identifiers: Identifier[] = [];
+
+    walkExpressions([expr], node => {
+        if (node.type === 'ENDGetter') {
+            const path = (node as ENDGetter).path;
+            const head = path[0];
+            if (isIdentifier(head) && isDependency(head.context)) {
+                heads.add(head);
+                deps.paths.add(getterPath(head.context, [head.name, ...staticPath(path.slice(1))]));
+            }
+        } else if (node.type === 'ENDCaller') {
+            // Calling function from context, e.g. `#handler()`
+            const { object, property } = node as ENDCaller;
+            const context = object.type === 'ENDGetterPrefix' ? (object as ENDGetterPrefix).context : null;
+            if (isDependency(context) && isLiteral(property)) {
+                const name = String((property as Literal).value);
+                deps[context].add(name);
+                deps.paths.add(getterPath(context, [name]));
+            }
+        } else if (isIdentifier(node) && isDependency(node.context)) {
+            deps[node.context].add(node.name);
+            identifiers.push(node);
+        }
+    });
+
+    identifiers.forEach(id => {
+        if (!heads.has(id)) {
+            deps.paths.add(getterPath(id.context as DependencyContext, [id.name]));
+        }
+    });
+
+    return deps;
+}
+
+function isDependency(context: IdentifierContext): context is DependencyContext {
+    return context === 'property' || context === 'state' || context === 'store' || context === 'variable';
+}
+
+/**
+ * Returns property names of leading static fragments of getter path
+ */
+export function staticPath(fragments: Node[]): string[] {
+    const result: string[] = [];
+    for (const fragment of fragments) {
+        if (!isLiteral(fragment) || (typeof fragment.value !== 'string' && typeof fragment.value !== 'number')) {
+            break;
+        }
+        result.push(String(fragment.value));
+    }
+
+    return result;
+}
+
+/**
+ * Returns dot-separated access path for given context and property names
+ */
+export function getterPath(context: DependencyContext, names: string[]): string {
+    return [pathPrefixes[context], ...names].join('.');
+}
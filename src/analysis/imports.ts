@@ -0,0 +1,61 @@
+import { ENDProgram, ENDImport, ENDElement, ENDDiagnostic } from '../ast';
+import { diagnostic, walkTemplate } from './utils';
+
+/**
+ * Dashed element names which are reserved by HTML spec and can’t be used
+ * as custom element names
+ */
+export const reservedElements = [
+    'annotation-xml', 'color-profile', 'font-face', 'font-face-src',
+    'font-face-uri', 'font-face-format', 'font-face-name', 'missing-glyph'
+];
+
+/**
+ * Validates components of given template against its imports: reports
+ * components without import, unused imports and imports which collide with
+ * reserved element names
+ */
+export default function validateImports(ast: ENDProgram): ENDDiagnostic[] {
+    const diagnostics: ENDDiagnostic[] = [];
+    const imports: ENDImport[] = [];
+    const components: ENDElement[] = [];
+
+    walkTemplate(ast, node => {
+        if (node.type === 'ENDImport') {
+            imports.push(node as ENDImport);
+        } else if (node.type === 'ENDElement' && (node as ENDElement).component) {
+            components.push(node as ENDElement);
+        }
+    });
+
+    const imported = new Set(imports.map(item => item.name));
+    const used = new Set<string>();
+
+    components.forEach(elem => {
+        const { name } = elem.name;
+        used.add(name);
+
+        if (reservedElements.includes(name)) {
+            if (imported.has(name)) {
+                diagnostics.push(reserved(name, elem.name));
+            }
+        } else if (!imported.has(name)) {
+            diagnostics.push(diagnostic('END_UNKNOWN_COMPONENT', `Component <${name}> is not imported`, elem.name, 'warning', { name }));
+        }
+    });
+
+    imports.forEach(item => {
+        const { name, href } = item;
+        if (!used.has(name)) {
+            diagnostics.push(reservedElements.includes(name)
+                ? reserved(name, item)
+                : diagnostic('END_UNUSED_IMPORT', `Component <${name}> is imported but never used`, item, 'warning', { name, href }));
+        }
+    });
+
+    return diagnostics;
+}
+
+function reserved(name: string, node: ENDImport | ENDElement['name']): ENDDiagnostic {
+    return diagnostic('END_RESERVED_COMPONENT_NAME', `Component name ${name} is reserved by HTML spec`, node, 'error', { name });
+}
@@ -0,0 +1,146 @@
+import {
+    ENDProgram, ENDImport, ENDElement, ENDPartial, ENDPartialStatement, ENDAttributeStatement, ENDDirective, Program
+} from '../ast';
+import { getAttr, getAttrValue } from '../elements/utils';
+import analyzeDependencies from './dependencies';
+import { walkTemplate } from './utils';
+
+export interface ManifestImport {
+    /** Component name */
+    name: string;
+    href: string;
+
+    /** Component is used in template */
+    used: boolean;
+}
+
+/**
+ * Summary of template: its dependencies and public interface
+ */
+export interface TemplateManifest {
+    imports: ManifestImport[];
+
+    /** Names of all components used in template */
+    components: string[];
+
+    /** Names of defined partials */
+    partials: string[];
+
+    /** Names of invoked partials */
+    partialCalls: string[];
+
+    /** Static element refs */
+    refs: string[];
+
+    /** Expressions of dynamic element refs */
+    dynamicRefs: Program[];
+
+    /** Names of declared slots, empty string is a default slot */
+    slots: string[];
+
+    /** Names of component slots filled with `slot` attribute */
+    slotted: string[];
+
+    /** Names of listened events */
+    events: string[];
+
+    /** Names of read props, state and store keys */
+    props: string[];
+    state: string[];
+    store: string[];
+}
+
+/**
+ * Returns manifest of given template
+ */
+export default function getManifest(ast: ENDProgram): TemplateManifest {
+    const imports: ENDImport[] = [];
+    const components = new Set<string>();
+    const partials = new Set<string>();
+    const partialCalls = new Set<string>();
+    const refs = new Set<string>();
+    const dynamicRefs: Program[] = [];
+    const slots = new Set<string>();
+    const slotted = new Set<string>();
+    const events = new Set<string>();
+    const props = new Set<string>();
+    const state = new Set<string>();
+    const store = new Set<string>();
+
+    const addEvents = (directives: ENDDirective[]) => directives.forEach(dir => {
+        if (dir.prefix === 'on') {
+            events.add(dir.name);
+        }
+    });
+
+    walkTemplate(ast, node => {
+        switch (node.type) {
+            case 'ENDImport':
+                imports.push(node as ENDImport);
+                break;
+
+            case 'ENDPartial':
+                partials.add((node as ENDPartial).id);
+                break;
+
+            case 'ENDPartialStatement':
+                partialCalls.add((node as ENDPartialStatement).id);
+                break;
+
+            case 'ENDAttributeStatement':
+                addEvents((node as ENDAttributeStatement).directives);
+                break;
+
+            case 'ENDElement': {
+                const elem = node as ENDElement;
+                if (elem.component) {
+                    components.add(elem.name.name);
+                }
+
+                if (typeof elem.ref === 'string') {
+                    refs.add(elem.ref);
+                } else if (elem.ref) {
+                    dynamicRefs.push(elem.ref);
+                }
+
+                if (elem.name.name === 'slot') {
+                    const name = getAttrValue(elem, 'name');
+                    if (!getAttr(elem, 'name')) {
+                        slots.add('');
+                    } else if (typeof name === 'string') {
+                        slots.add(name);
+                    }
+                }
+
+                const slot = getAttrValue(elem, 'slot');
+                if (typeof slot === 'string') {
+                    slotted.add(slot);
+                }
+
+                addEvents(elem.directives);
+                break;
+            }
+        }
+    });
+
+    analyzeDependencies(ast).forEach(deps => {
+        deps.property.forEach(name => props.add(name));
+        deps.state.forEach(name => state.add(name));
+        deps.store.forEach(name => store.add(name));
+    });
+
+    return {
+        imports: imports.map(item => ({ name: item.name, href: item.href, used: components.has(item.name) })),
+        components: Array.from(components),
+        partials: Array.from(partials),
+        partialCalls: Array.from(partialCalls),
+        refs: Array.from(refs),
+        dynamicRefs,
+        slots: Array.from(slots),
+        slotted: Array.from(slotted),
+        events: Array.from(events),
+        props: Array.from(props),
+        state: Array.from(state),
+        store: Array.from(store)
+    };
+}
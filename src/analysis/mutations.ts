@@ -0,0 +1,128 @@
+import {
+    Node, ENDProgram, ENDDirective, ENDDiagnostic, Program, Identifier, ENDGetter, MemberExpression,
+    AssignmentExpression, UpdateExpression
+} from '../ast';
+import { resolveLocals, patternIdentifiers } from '../expression/scope';
+import { isIdentifier, literal } from '../utils';
+import { DependencyContext, getterPath, staticPath } from './dependencies';
+import { diagnostic, templateExpressions, walkExpressions } from './utils';
+
+export interface Mutation {
+    context: DependencyContext;
+
+    /** Name of written root value */
+    name: string;
+
+    /** Statically known written path, like `state.user.name` */
+    path: string;
+
+    /** `AssignmentExpression` or `UpdateExpression` which writes value */
+    node: Node;
+}
+
+export interface EventMutations {
+    directive: ENDDirective;
+
+    /** Name of handled event */
+    event: string;
+    mutations: Mutation[];
+}
+
+export interface MutationsAnalysis {
+    events: EventMutations[];
+    diagnostics: ENDDiagnostic[];
+}
+
+/**
+ * Collects values written by every event handler (`on:*` directive) of given
+ * template. Writes to component props are reported as errors
+ */
+export default function analyzeMutations(ast: ENDProgram): MutationsAnalysis {
+    const result: MutationsAnalysis = { events: [], diagnostics: [] };
+
+    templateExpressions(ast, (expr, owner) => {
+        if (owner.type === 'ENDDirective' && (owner as ENDDirective).prefix === 'on') {
+            const directive = owner as ENDDirective;
+            const mutations = getMutations(expr);
+            result.events.push({ directive, event: directive.name, mutations });
+            mutations.forEach(item => {
+                if (item.context === 'property') {
+                    result.diagnostics.push(propMutation(item));
+                }
+            });
+        }
+    });
+
+    return result;
+}
+
+/**
+ * Returns list of values written by given expression
+ */
+export function getMutations(expr: Program): Mutation[] {
+    const result: Mutation[] = [];
+    const locals = resolveLocals(expr);
+
+    walkExpressions([expr], node => {
+        if (node.type === 'AssignmentExpression') {
+            target((node as AssignmentExpression).left, node, locals, result);
+        } else if (node.type === 'UpdateExpression') {
+            target((node as UpdateExpression).argument, node, locals, result);
+        }
+    });
+
+    return result;
+}
+
+/**
+ * Creates diagnostic for prop write
+ */
+export function propMutation(mutation: Mutation): ENDDiagnostic {
+    return diagnostic('END_PROP_MUTATION', `Component props are read-only, unable to write ${mutation.path}`, mutation.node, 'error', {
+        name: mutation.name,
+        path: mutation.path
+    });
+}
+
+/**
+ * Collects mutations of given assignment target
+ */
+function target(node: Node, owner: Node, locals: Map<Identifier, Identifier>, result: Mutation[]): void {
+    if (node.type === 'ENDGetter') {
+        const [head, ...path] = (node as ENDGetter).path;
+        if (isIdentifier(head)) {
+            add(head, staticPath(path), owner, locals, result);
+        }
+    } else if (node.type === 'MemberExpression') {
+        // Getters are disabled: find root object of member expression
+        const path: Node[] = [];
+        let ctx: Node = node;
+        while (ctx.type === 'MemberExpression') {
+            const { object, property, computed } = ctx as MemberExpression;
+            path.unshift(isIdentifier(property) && !computed ? literal(property.name) : property);
+            ctx = object;
+        }
+
+        if (isIdentifier(ctx)) {
+            add(ctx, staticPath(path), owner, locals, result);
+        }
+    } else if (isIdentifier(node)) {
+        add(node, [], owner, locals, result);
+    } else {
+        // Destructuring assignment
+        patternIdentifiers(node).forEach(id => add(id, [], owner, locals, result));
+    }
+}
+
+function add(id: Identifier, path: string[], owner: Node, locals: Map<Identifier, Identifier>, result: Mutation[]): void {
+    if (locals.has(id)) {
+        return;
+    }
+
+    const { name } = id;
+    const context = id.context as DependencyContext;
+
+    if (context === 'property' || context === 'state' || context === 'store' || context === 'variable') {
+        result.push({ context, name, path: getterPath(context, [name, ...path]), node: owner });
+    }
+}
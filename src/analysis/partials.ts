@@ -0,0 +1,88 @@
+import { ENDProgram, ENDPartial, ENDPartialStatement, ENDDiagnostic } from '../ast';
+import { isIdentifier } from '../utils';
+import { diagnostic, walkTemplate } from './utils';
+
+/**
+ * Checks invocations of partials in given template against partial definitions.
+ * Reports undefined partials, unknown and missing required params and duplicate
+ * partial definitions
+ * @param imports Templates of imported files, partials of which are
+ * available in given template as well
+ */
+export default function validatePartials(ast: ENDProgram, imports: ENDProgram[] = []): ENDDiagnostic[] {
+    const diagnostics: ENDDiagnostic[] = [];
+    const definitions = new Map<string, ENDPartial>();
+    const external = new Set<string>();
+    const invocations: ENDPartialStatement[] = [];
+
+    imports.forEach(item => collectPartials(item).forEach(partial => {
+        if (!definitions.has(partial.id)) {
+            definitions.set(partial.id, partial);
+            external.add(partial.id);
+        }
+    }));
+
+    walkTemplate(ast, node => {
+        if (node.type === 'ENDPartial') {
+            const partial = node as ENDPartial;
+            const { id } = partial;
+
+            if (definitions.has(id)) {
+                const message = external.has(id)
+                    ? `Partial "${id}" is already defined in imported template`
+                    : `Partial "${id}" is already defined`;
+                diagnostics.push(diagnostic('END_DUPLICATE_PARTIAL', message, partial, 'error', { id }));
+            } else {
+                definitions.set(id, partial);
+            }
+        } else if (node.type === 'ENDPartialStatement') {
+            invocations.push(node as ENDPartialStatement);
+        }
+    });
+
+    invocations.forEach(stmt => {
+        const { id } = stmt;
+        const partial = definitions.get(id);
+
+        if (!partial) {
+            diagnostics.push(diagnostic('END_UNKNOWN_PARTIAL', `Partial "${id}" is not defined`, stmt, 'error', { id }));
+            return;
+        }
+
+        const declared = new Set<string>();
+        partial.params.forEach(param => isIdentifier(param.name) && declared.add(param.name.name));
+
+        const passed = new Set<string>();
+        stmt.params.forEach(param => {
+            if (isIdentifier(param.name)) {
+                const { name } = param.name;
+                passed.add(name);
+
+                if (!declared.has(name)) {
+                    diagnostics.push(diagnostic('END_UNKNOWN_PARTIAL_PARAM', `Partial "${id}" has no "${name}" param`, param, 'warning', {
+                        id, name
+                    }));
+                }
+            }
+        });
+
+        // Parameter without default value is required
+        partial.params.forEach(param => {
+            if (isIdentifier(param.name) && param.value === null && !passed.has(param.name.name)) {
+                const { name } = param.name;
+                diagnostics.push(diagnostic('END_MISSING_PARTIAL_PARAM', `Missing required "${name}" param of partial "${id}"`, stmt, 'error', {
+                    id, name
+                }));
+            }
+        });
+    });
+
+    return diagnostics;
+}
+
+/**
+ * Returns list of partials defined in given template
+ */
+export function collectPartials(ast: ENDProgram): ENDPartial[] {
+    return ast.body.filter(node => node.type === 'ENDPartial') as ENDPartial[];
+}
@@ -0,0 +1,144 @@
+import {
+    Node, ENDDiagnostic, ENDDiagnosticSeverity, ENDAttributeValue, Program, ENDIfStatement, ENDAttributeValueExpression
+} from '../ast';
+import { isIfDirective } from '../elements/utils';
+import { ENDErrorCode, ENDErrorData } from '../syntax-error';
+import { walkFull } from '../walk';
+import { getVisitorKeys } from '../traverse';
+
+/**
+ * Properties of template nodes with nested statements
+ */
+export const statementKeys = ['body', 'consequent'];
+
+/**
+ * Creates diagnostic record for given node
+ */
+export function diagnostic(code: ENDErrorCode, message: string, node: Node,
+                           severity: ENDDiagnosticSeverity = 'warning', data?: ENDErrorData): ENDDiagnostic {
+    return {
+        code,
+        message,
+        severity,
+        data,
+        start: nodeStart(node),
+        end: nodeEnd(node),
+        loc: node.loc
+    };
+}
+
+/**
+ * Returns start offset of given node. Some template nodes contain source
+ * location only
+ */
+export function nodeStart(node: Node): number {
+    if (node.start != null) {
+        return node.start;
+    }
+
+    return node.loc && node.loc.start ? node.loc.start.offset : null;
+}
+
+/**
+ * Returns end offset of given node
+ */
+export function nodeEnd(node: Node): number {
+    if (node.end != null) {
+        return node.end;
+    }
+
+    return node.loc && node.loc.end ? node.loc.end.offset : null;
+}
+
+/**
+ * Check if given node contains `pos` offset
+ */
+export function containsPos(node: Node, pos: number): boolean {
+    const start = nodeStart(node);
+    const end = nodeEnd(node);
+    return start != null && end != null && start <= pos && pos < end;
+}
+
+/**
+ * Returns list of all expressions in given attribute value
+ */
+export function valueExpressions(value: ENDAttributeValue | Node): Program[] {
+    if (!value) {
+        return [];
+    }
+
+    if (value.type === 'Program') {
+        return [value as Program];
+    }
+
+    if (value.type === 'ENDAttributeValueExpression') {
+        return (value as ENDAttributeValueExpression).elements.filter((item): item is Program => item.type === 'Program');
+    }
+
+    return [];
+}
+
+/**
+ * Invokes `callback` for every node of given expressions
+ */
+export function walkExpressions(expressions: Program[], callback: (node: Node) => void): void {
+    expressions.forEach(expr => walkFull(expr, callback));
+}
+
+/**
+ * Invokes `callback` for given template node and all its nested template nodes.
+ * Expressions are not traversed: callback receives `Program` node only
+ */
+export function walkTemplate(node: Node, callback: (node: Node) => void): void {
+    callback(node);
+    if (node.type !== 'Program') {
+        eachChild(node, child => walkTemplate(child, callback));
+    }
+}
+
+/**
+ * Invokes `callback` for every expression of given template node and its
+ * descendants. Second argument of callback is a template node which owns
+ * expression: attribute, directive, variable or statement itself
+ */
+export function templateExpressions(node: Node, callback: (expr: Program, owner: Node) => void): void {
+    visitExpressions(node, null, callback);
+}
+
+function visitExpressions(node: Node, owner: Node | null, callback: (expr: Program, owner: Node) => void): void {
+    if (node.type === 'Program') {
+        callback(node as Program, owner || node);
+        return;
+    }
+
+    eachChild(node, (child, key) => {
+        if (key === 'test' && node.type === 'ENDIfStatement' && isIfDirective(node as ENDIfStatement)) {
+            // Test of `e:if` directive is owned by directive itself
+            return;
+        }
+
+        let childOwner: Node | null = node;
+        if (node.type === 'ENDAttributeValueExpression') {
+            // Interpolated attribute value is owned by attribute
+            childOwner = owner;
+        } else if (statementKeys.includes(key)) {
+            childOwner = null;
+        }
+
+        visitExpressions(child, childOwner, callback);
+    });
+}
+
+/**
+ * Invokes `callback` for every child node of given node
+ */
+export function eachChild(node: Node, callback: (child: Node, key: string) => void): void {
+    getVisitorKeys(node).forEach(key => {
+        const value = node[key];
+        if (Array.isArray(value)) {
+            value.forEach((child: Node) => child && callback(child, key));
+        } else if (value && typeof value === 'object') {
+            callback(value, key);
+        }
+    });
+}
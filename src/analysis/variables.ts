@@ -0,0 +1,328 @@
+import {
+    Node, ENDProgram, ENDDiagnostic, Identifier, Literal, ENDCaller, ENDGetterPrefix, ENDAttribute,
+    ENDAttributeValue, ENDDirective, ENDElement, ENDPartial, ENDIfStatement, ENDChooseStatement, ENDForEachStatement,
+    ENDVariableStatement, ENDAttributeStatement, ENDAddClassStatement, ENDPartialStatement, ENDInnerHTML, Program,
+    ENDTemplate
+} from '../ast';
+import { iteratorVariables } from '../expression/scope';
+import { isIfDirective } from '../elements/utils';
+import { isIdentifier } from '../utils';
+import { diagnostic, nodeStart, nodeEnd, containsPos, valueExpressions, walkExpressions, eachChild, statementKeys } from './utils';
+
+/**
+ * Kind of template variable:
+ * * `variable`: declared with `<e:variable>`;
+ * * `iterator`: implicit variable of `<e:for-each>`;
+ * * `param`: partial parameter.
+ */
+export type VariableKind = 'variable' | 'iterator' | 'param';
+
+export interface VariableDeclaration {
+    name: string;
+    kind: VariableKind;
+
+    /** Declaring node: `ENDVariable`, `ENDForEachStatement` or partial param */
+    node: Node;
+    scope: VariableScope;
+
+    /** Source offset from which variable is available in its scope */
+    pos: number;
+    references: VariableReference[];
+}
+
+export interface VariableReference {
+    name: string;
+
+    /** Variable `Identifier` or `Literal` name of called variable function */
+    node: Identifier | Literal;
+    scope: VariableScope;
+    declaration: VariableDeclaration | null;
+}
+
+export interface VariableScope {
+    /** Node which creates scope */
+    node: Node;
+    parent: VariableScope | null;
+    children: VariableScope[];
+    declarations: VariableDeclaration[];
+}
+
+export interface VariablesAnalysis {
+    /** Root scope of template */
+    scope: VariableScope;
+    declarations: VariableDeclaration[];
+    references: VariableReference[];
+    diagnostics: ENDDiagnostic[];
+}
+
+/**
+ * Links all template variable uses (`@name`) in given program to their
+ * declarations: `<e:variable>`, implicit `<e:for-each>` variables and partial
+ * params. Reports variables used before declaration, outside of scope or
+ * never used
+ */
+export default function analyzeVariables(ast: ENDProgram): VariablesAnalysis {
+    const result: VariablesAnalysis = {
+        scope: createScope(ast, null),
+        declarations: [],
+        references: [],
+        diagnostics: []
+    };
+
+    statements(ast.body, result.scope, result);
+
+    result.references.forEach(ref => {
+        ref.declaration = resolve(ref);
+        if (ref.declaration) {
+            ref.declaration.references.push(ref);
+        } else {
+            result.diagnostics.push(unresolved(ref, result));
+        }
+    });
+
+    result.declarations.forEach(decl => {
+        if (decl.kind === 'variable' && !decl.references.length) {
+            result.diagnostics.push(diagnostic('END_UNUSED_VARIABLE', `Variable @${decl.name} is declared but never used`, decl.node, 'warning', {
+                name: decl.name
+            }));
+        }
+    });
+
+    return result;
+}
+
+/**
+ * Returns scope chain at given source offset, starting with the innermost scope
+ */
+export function getScopeChain(analysis: VariablesAnalysis, pos: number): VariableScope[] {
+    const chain: VariableScope[] = [];
+    let scope = findScope(analysis.scope, pos);
+
+    while (scope) {
+        chain.push(scope);
+        scope = scope.parent;
+    }
+
+    return chain;
+}
+
+/**
+ * Returns all variables available at given source offset
+ */
+export function getVisibleVariables(analysis: VariablesAnalysis, pos: number): VariableDeclaration[] {
+    const result: VariableDeclaration[] = [];
+    const names = new Set<string>();
+
+    getScopeChain(analysis, pos).forEach(scope => {
+        for (let i = scope.declarations.length - 1; i >= 0; i--) {
+            const decl = scope.declarations[i];
+            if (decl.pos <= pos && !names.has(decl.name)) {
+                names.add(decl.name);
+                result.push(decl);
+            }
+        }
+    });
+
+    return result;
+}
+
+function statements(nodes: Node[], scope: VariableScope, result: VariablesAnalysis): void {
+    nodes.forEach(node => statement(node, scope, result));
+}
+
+function statement(node: Node, scope: VariableScope, result: VariablesAnalysis): void {
+    switch (node.type) {
+        case 'ENDTemplate':
+            statements((node as ENDTemplate).body, createScope(node, scope), result);
+            break;
+
+        case 'ENDPartial': {
+            const partial = node as ENDPartial;
+            const inner = createScope(node, scope);
+            partial.params.forEach(param => {
+                references(param.value, scope, result);
+                if (isIdentifier(param.name)) {
+                    declare(param.name.name, 'param', param, inner, -Infinity, result);
+                }
+            });
+            statements(partial.body, inner, result);
+            break;
+        }
+
+        case 'ENDElement': {
+            const elem = node as ENDElement;
+            attributes(elem.attributes, scope, result);
+            attributes(elem.directives, scope, result);
+            if (elem.ref && typeof elem.ref !== 'string') {
+                references(elem.ref, scope, result);
+            }
+            statements(elem.body, createScope(node, scope), result);
+            break;
+        }
+
+        case 'ENDIfStatement':
+            // Test of `e:if` directive is collected from element
+            if (!isIfDirective(node as ENDIfStatement)) {
+                references((node as ENDIfStatement).test, scope, result);
+            }
+            statements((node as ENDIfStatement).consequent, createScope(node, scope), result);
+            break;
+
+        case 'ENDChooseStatement':
+            (node as ENDChooseStatement).cases.forEach(item => {
+                references(item.test, scope, result);
+                statements(item.consequent, createScope(item, scope), result);
+            });
+            break;
+
+        case 'ENDForEachStatement': {
+            const forEach = node as ENDForEachStatement;
+            const inner = createScope(node, scope);
+            const pos = forEach.body.length ? nodeStart(forEach.body[0]) : nodeEnd(forEach);
+
+            references(forEach.select, scope, result);
+            iteratorVariables.forEach(name => declare(name, 'iterator', node, inner, pos, result));
+            references(forEach.key, inner, result);
+            statements(forEach.body, inner, result);
+            break;
+        }
+
+        case 'ENDVariableStatement':
+            (node as ENDVariableStatement).variables.forEach(variable => {
+                references(variable.value, scope, result);
+                declare(variable.name, 'variable', variable, scope, nodeEnd(variable), result);
+            });
+            break;
+
+        case 'ENDAttributeStatement':
+            attributes((node as ENDAttributeStatement).attributes, scope, result);
+            attributes((node as ENDAttributeStatement).directives, scope, result);
+            break;
+
+        case 'ENDAddClassStatement':
+            statements((node as ENDAddClassStatement).tokens, scope, result);
+            break;
+
+        case 'ENDPartialStatement':
+            attributes((node as ENDPartialStatement).params, scope, result);
+            break;
+
+        case 'ENDInnerHTML':
+            references((node as ENDInnerHTML).value, scope, result);
+            break;
+
+        case 'Program':
+            references(node as Program, scope, result);
+            break;
+
+        default: {
+            // Custom statement: nested statements have their own scope
+            let inner: VariableScope;
+            eachChild(node, (child, key) => {
+                if (statementKeys.includes(key)) {
+                    statement(child, inner || (inner = createScope(node, scope)), result);
+                } else {
+                    statement(child, scope, result);
+                }
+            });
+        }
+    }
+}
+
+function attributes(attrs: Array<ENDAttribute | ENDDirective>, scope: VariableScope, result: VariablesAnalysis): void {
+    attrs.forEach(attr => {
+        if (attr.type === 'ENDAttribute') {
+            references(attr.name, scope, result);
+        }
+        references(attr.value, scope, result);
+    });
+}
+
+/**
+ * Collects variable references from given attribute value
+ */
+function references(value: ENDAttributeValue | Node, scope: VariableScope, result: VariablesAnalysis): void {
+    walkExpressions(valueExpressions(value), node => {
+        if (isIdentifier(node) && node.context === 'variable') {
+            addReference(node.name, node, scope, result);
+        } else if (node.type === 'ENDCaller') {
+            // Call of variable function, e.g. `@fn()`
+            const { object, property } = node as ENDCaller;
+            if (object.type === 'ENDGetterPrefix' && (object as ENDGetterPrefix).context === 'variable' && property.type === 'Literal') {
+                addReference(String((property as Literal).value), property as Literal, scope, result);
+            }
+        }
+    });
+}
+
+function addReference(name: string, node: Identifier | Literal, scope: VariableScope, result: VariablesAnalysis): void {
+    result.references.push({ name, node, scope, declaration: null });
+}
+
+function declare(name: string, kind: VariableKind, node: Node, scope: VariableScope, pos: number, result: VariablesAnalysis): void {
+    const decl: VariableDeclaration = { name, kind, node, scope, pos, references: [] };
+    scope.declarations.push(decl);
+    result.declarations.push(decl);
+}
+
+function createScope(node: Node, parent: VariableScope | null): VariableScope {
+    const scope: VariableScope = { node, parent, children: [], declarations: [] };
+    if (parent) {
+        parent.children.push(scope);
+    }
+    return scope;
+}
+
+/**
+ * Finds declaration of given variable reference
+ */
+function resolve(ref: VariableReference): VariableDeclaration | null {
+    const pos = nodeStart(ref.node);
+    let scope = ref.scope;
+
+    while (scope) {
+        for (let i = scope.declarations.length - 1; i >= 0; i--) {
+            const decl = scope.declarations[i];
+            if (decl.name === ref.name && decl.pos <= pos) {
+                return decl;
+            }
+        }
+        scope = scope.parent;
+    }
+
+    return null;
+}
+
+function unresolved(ref: VariableReference, result: VariablesAnalysis): ENDDiagnostic {
+    const { name } = ref;
+    let scope = ref.scope;
+
+    while (scope) {
+        if (scope.declarations.some(decl => decl.name === name)) {
+            return diagnostic('END_VARIABLE_BEFORE_DECLARATION', `Variable @${name} is used before declaration`, ref.node, 'warning', { name });
+        }
+        scope = scope.parent;
+    }
+
+    if (result.declarations.some(decl => decl.name === name)) {
+        return diagnostic('END_VARIABLE_OUT_OF_SCOPE', `Variable @${name} is used outside of its scope`, ref.node, 'warning', { name });
+    }
+
+    return diagnostic('END_UNDECLARED_VARIABLE', `Variable @${name} is not declared`, ref.node, 'warning', { name });
+}
+
+/**
+ * Finds the innermost scope which contains given position
+ */
+function findScope(scope: VariableScope, pos: number): VariableScope {
+    for (const child of scope.children) {
+        // Nodes produced by directives, like `e:if`, may have location of
+        // directive only: look into nested scopes as well
+        const inner = findScope(child, pos);
+        if (inner !== child || containsPos(child.node, pos)) {
+            return inner;
+        }
+    }
+
+    return scope;
+}
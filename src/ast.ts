@@ -10,6 +10,18 @@ export interface SourceLocation {
     source?: string | null;
 }
 
+export type ENDDiagnosticSeverity = 'error' | 'warning';
+
+export interface ENDDiagnostic {
+    code?: string;
+    message: string;
+    severity: ENDDiagnosticSeverity;
+    data?: { [key: string]: string | number | boolean };
+    start: number;
+    end: number;
+    loc: SourceLocation;
+}
+
 export interface Node {
     type: string;
     start?: number;
@@ -25,12 +37,12 @@ export type ArgumentListElement = Expression | SpreadElement;
 export type ArrayPatternElement = Expression | null;
 export type Pattern = ArrayPattern | ObjectPattern | Identifier;
 export type Expression = ArrayExpression | ArrowFunctionExpression | AssignmentExpression
-    | BinaryExpression | LogicalExpression | CallExpression | MemberExpression | ConditionalExpression
+    | BinaryExpression | LogicalExpression | CallExpression | NewExpression | MemberExpression | ConditionalExpression
     | Identifier | Literal | ThisExpression | ObjectExpression | RegExpLiteral | SequenceExpression
     | UnaryExpression | UpdateExpression | FunctionDeclaration | ArrowFunctionExpression
-    | AssignmentPattern | SpreadElement | TemplateLiteral | TaggedTemplateExpression
+    | AssignmentPattern | SpreadElement | TemplateLiteral | TaggedTemplateExpression | ChainExpression
     | ENDGetter | ENDCaller | ENDFilter;
-export type Statement = ReturnStatement | EmptyStatement | ExpressionStatement;
+export type Statement = ReturnStatement | EmptyStatement | ExpressionStatement | BlockStatement | VariableDeclaration;
 export type PropertyKey = Identifier | Literal;
 export type PropertyValue = Pattern | Literal;
 export type LiteralValue = boolean | number | string | null;
@@ -52,6 +64,8 @@ export interface Literal extends JSNode {
     type: 'Literal';
     value: LiteralValue;
     raw?: string;
+    /** Pattern and flags of regular expression literal */
+    regex?: { pattern: string, flags: string };
 }
 
 export type IdentifierContext = 'property' | 'state' | 'variable' | 'store' | 'helper' | 'definition';
@@ -88,7 +102,7 @@ export interface AssignmentPattern extends JSNode {
 
 export interface ObjectPattern extends JSNode {
     type: 'ObjectPattern';
-    properties: Property[];
+    properties: Array<Property | RestElement>;
 }
 
 export interface ArrayPattern extends JSNode {
@@ -148,6 +162,16 @@ export interface CallExpression extends JSNode {
     type: 'CallExpression';
     callee: Expression;
     arguments: ArgumentListElement[];
+    /** Optional call: `fn?.()` */
+    optional?: boolean;
+    /** Call is created from pipe: `value | fn(arg)` */
+    pipe?: boolean;
+}
+
+export interface NewExpression extends JSNode {
+    type: 'NewExpression';
+    callee: Expression;
+    arguments: ArgumentListElement[];
 }
 
 export interface MemberExpression extends JSNode {
@@ -155,6 +179,17 @@ export interface MemberExpression extends JSNode {
     object: Expression;
     property: Expression;
     computed?: boolean;
+    /** Optional member access: `obj?.prop` */
+    optional?: boolean;
+}
+
+/**
+ * Optional chain, e.g. `obj?.prop.value`: contains optional member
+ * expressions or calls
+ */
+export interface ChainExpression extends JSNode {
+    type: 'ChainExpression';
+    expression: Expression;
 }
 
 export interface ConditionalExpression extends JSNode {
@@ -164,6 +199,9 @@ export interface ConditionalExpression extends JSNode {
     alternate: Expression;
 }
 
+/**
+ * @deprecated Parser emits regular expressions as `Literal` with `regex` property
+ */
 export interface RegExpLiteral extends JSNode {
     type: 'RegExpLiteral';
     regex: { pattern: string, flags: string };
@@ -207,6 +245,18 @@ export interface BlockStatement extends JSNode {
     body: Statement[];
 }
 
+export interface VariableDeclaration extends JSNode {
+    type: 'VariableDeclaration';
+    kind: 'var' | 'let' | 'const';
+    declarations: VariableDeclarator[];
+}
+
+export interface VariableDeclarator extends JSNode {
+    type: 'VariableDeclarator';
+    id: Pattern;
+    init: Expression | null;
+}
+
 export interface TemplateLiteral extends JSNode {
     type: 'TemplateLiteral';
     quasis: TemplateElement[];
@@ -233,16 +283,22 @@ export type ENDNode = Node;
 
 export type ENDStatement = ENDElement | ENDInnerHTML | ENDPlainStatement
     | ENDAttributeStatement | ENDAddClassStatement | ENDVariableStatement
-    | ENDControlStatement | ENDPartialStatement;
+    | ENDControlStatement | ENDPartialStatement | ENDCommentStatement;
 export type ENDProgramStatement = ENDTemplate | ENDPartial | ENDImport | ENDStatement;
 export type ENDControlStatement = ENDIfStatement | ENDChooseStatement | ENDForEachStatement | ENDPartialStatement;
 export type ENDPlainStatement = Literal | Program;
+export type ENDCommentStatement = ENDComment | ENDCData | ENDProcessingInstruction;
 export type ENDAttributeName = Identifier | Program;
 export type ENDBaseAttributeValue = Literal | Program;
 export type ENDAttributeValue = ENDBaseAttributeValue | ENDAttributeValueExpression | null;
-export type ENDGetterPathFragment = Expression | ENDGetter | ENDCaller | ENDFilter;
+export type ENDGetterPathFragment = (Expression | ENDGetter | ENDCaller | ENDFilter) & ENDOptionalAccess;
 export type ENDGetterPath = ENDGetterPathFragment[];
 
+export interface ENDOptionalAccess {
+    /** Path fragment is accessed with optional chaining: `obj?.prop` */
+    optional?: boolean;
+}
+
 export interface ENDGetterPrefix extends JSNode {
     type: 'ENDGetterPrefix';
     context: IdentifierContext;
@@ -254,6 +310,7 @@ export interface ENDProgram extends ENDNode {
     body: ENDProgramStatement[];
     stylesheets: ENDStylesheet[];
     scripts: ENDScript[];
+    diagnostics?: ENDDiagnostic[];
 }
 
 export interface ENDTemplate extends ENDNode {
@@ -271,6 +328,10 @@ export interface ENDCaller extends JSNode {
     object: ENDGetterPathFragment | ENDGetterPrefix;
     property: ENDGetterPathFragment | ENDGetterPrefix;
     arguments: ArgumentListElement[];
+    /** Optional call: `obj.fn?.()` */
+    optional?: boolean;
+    /** Call is created from pipe */
+    pipe?: boolean;
 }
 
 export interface ENDFilter extends JSNode {
@@ -330,6 +391,8 @@ export interface ENDIfStatement extends ENDNode {
 export interface ENDChooseStatement extends ENDNode {
     type: 'ENDChooseStatement';
     cases: ENDChooseCase[];
+    /** Comments between cases, included with `includeComments` option only */
+    comments?: ENDCommentStatement[];
 }
 
 export interface ENDChooseCase extends ENDNode {
@@ -365,6 +428,8 @@ export interface ENDAttributeStatement extends ENDNode {
 export interface ENDAddClassStatement extends ENDNode {
     type: 'ENDAddClassStatement';
     tokens: ENDPlainStatement[];
+    /** Comments between tokens, included with `includeComments` option only */
+    comments?: ENDCommentStatement[];
 }
 
 export interface ENDInnerHTML extends ENDNode {
@@ -372,10 +437,28 @@ export interface ENDInnerHTML extends ENDNode {
     value: Program;
 }
 
+export interface ENDComment extends ENDNode {
+    type: 'ENDComment';
+    value: string;
+}
+
+export interface ENDCData extends ENDNode {
+    type: 'ENDCData';
+    value: string;
+}
+
+export interface ENDProcessingInstruction extends ENDNode {
+    type: 'ENDProcessingInstruction';
+    value: string;
+}
+
 export interface ENDImport extends ENDNode {
     type: 'ENDImport';
+    /** Resolved component name */
     name: string;
     href: string;
+    /** Component name is explicitly defined with `as` attribute */
+    explicit: boolean;
 }
 
 export interface ENDStylesheet extends ENDNode {
@@ -403,3 +486,82 @@ export interface ParsedTag extends Node {
     tagType: 'open' | 'close';
     selfClosing?: boolean;
 }
+
+/**
+ * Map of JS expression node types to node interfaces
+ */
+export interface JSNodeTypeMap {
+    Program: Program;
+    Literal: Literal;
+    Identifier: Identifier;
+    ThisExpression: ThisExpression;
+    FunctionDeclaration: FunctionDeclaration;
+    ArrowFunctionExpression: ArrowFunctionExpression;
+    AssignmentPattern: AssignmentPattern;
+    ObjectPattern: ObjectPattern;
+    ArrayPattern: ArrayPattern;
+    SpreadElement: SpreadElement;
+    RestElement: RestElement;
+    ArrayExpression: ArrayExpression;
+    ObjectExpression: ObjectExpression;
+    Property: Property;
+    AssignmentExpression: AssignmentExpression;
+    BinaryExpression: BinaryExpression;
+    LogicalExpression: LogicalExpression;
+    CallExpression: CallExpression;
+    NewExpression: NewExpression;
+    MemberExpression: MemberExpression;
+    ConditionalExpression: ConditionalExpression;
+    RegExpLiteral: RegExpLiteral;
+    SequenceExpression: SequenceExpression;
+    UnaryExpression: UnaryExpression;
+    UpdateExpression: UpdateExpression;
+    ExpressionStatement: ExpressionStatement;
+    EmptyStatement: EmptyStatement;
+    ReturnStatement: ReturnStatement;
+    BlockStatement: BlockStatement;
+    VariableDeclaration: VariableDeclaration;
+    VariableDeclarator: VariableDeclarator;
+    TemplateLiteral: TemplateLiteral;
+    TaggedTemplateExpression: TaggedTemplateExpression;
+    TemplateElement: TemplateElement;
+    ChainExpression: ChainExpression;
+}
+
+/**
+ * Map of Endorphin template node types to node interfaces
+ */
+export interface ENDNodeTypeMap {
+    ENDGetterPrefix: ENDGetterPrefix;
+    ENDGetter: ENDGetter;
+    ENDCaller: ENDCaller;
+    ENDFilter: ENDFilter;
+    ENDProgram: ENDProgram;
+    ENDTemplate: ENDTemplate;
+    ENDPartial: ENDPartial;
+    ENDElement: ENDElement;
+    ENDAttribute: ENDAttribute;
+    ENDDirective: ENDDirective;
+    ENDAttributeValueExpression: ENDAttributeValueExpression;
+    ENDVariable: ENDVariable;
+    ENDIfStatement: ENDIfStatement;
+    ENDChooseStatement: ENDChooseStatement;
+    ENDChooseCase: ENDChooseCase;
+    ENDForEachStatement: ENDForEachStatement;
+    ENDPartialStatement: ENDPartialStatement;
+    ENDVariableStatement: ENDVariableStatement;
+    ENDAttributeStatement: ENDAttributeStatement;
+    ENDAddClassStatement: ENDAddClassStatement;
+    ENDInnerHTML: ENDInnerHTML;
+    ENDComment: ENDComment;
+    ENDCData: ENDCData;
+    ENDProcessingInstruction: ENDProcessingInstruction;
+    ENDImport: ENDImport;
+    ENDStylesheet: ENDStylesheet;
+    ENDScript: ENDScript;
+    ParsedTag: ParsedTag;
+}
+
+export interface NodeTypeMap extends JSNodeTypeMap, ENDNodeTypeMap {}
+export type NodeType = keyof NodeTypeMap;
+export type ENDNodeType = keyof ENDNodeTypeMap;
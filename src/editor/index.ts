@@ -0,0 +1,348 @@
+import { Node, ENDProgram, ENDAttribute, ENDDirective, Program, ENDAttributeValue } from '../ast';
+import { TextEdit } from '../reparse';
+import { printAttributeValue } from '../printer';
+import { nodeStart, nodeEnd, walkTemplate } from '../analysis/utils';
+import { literal } from '../utils';
+import { createSourceMap, SourceMap, Mapping } from './source-map';
+
+export interface EditorResult {
+    /** Updated source code */
+    code: string;
+
+    /** Source map of updated code to original one */
+    map: SourceMap;
+
+    /** Applied text edits, can be passed to `reparse()` */
+    edits: TextEdit[];
+}
+
+export interface Editor {
+    /** Pending text edits in original source */
+    edits: TextEdit[];
+
+    /** Replaces `start:end` range of original source with given text */
+    replace: (start: number, end: number, text: string) => void;
+
+    /** Renames given attribute or directive */
+    renameAttribute: (node: ENDAttribute | ENDDirective, name: string) => void;
+
+    /**
+     * Updates value of given attribute or directive. String value is written
+     * as quoted literal
+     */
+    setAttributeValue: (node: ENDAttribute | ENDDirective, value: string | ENDAttributeValue) => void;
+
+    /**
+     * Wraps given node with `open` tag, e.g. `<e:if test={#enabled}>`.
+     * Closing tag is added automatically
+     */
+    wrapWith: (node: Node, open: string) => void;
+
+    /** Removes given node. If node occupies whole line, the line is removed as well */
+    removeNode: (node: Node) => void;
+
+    /** Replaces code of given expression, without curly braces */
+    replaceExpression: (program: Program, code: string) => void;
+
+    /** Applies all pending edits. Optional `file` is a name of generated file in source map */
+    apply: (file?: string) => EditorResult;
+}
+
+/**
+ * Inserted tag of `wrapWith()` call
+ */
+interface WrapTag {
+    /** Tag opens wrapper */
+    open: boolean;
+
+    /** Range of wrapped node */
+    start: number;
+    end: number;
+}
+
+/**
+ * Types of template nodes which can be wrapped with tag
+ */
+const contentTypes = [
+    'ENDElement', 'ENDInnerHTML', 'ENDAttributeStatement', 'ENDAddClassStatement', 'ENDVariableStatement',
+    'ENDIfStatement', 'ENDChooseStatement', 'ENDForEachStatement', 'ENDPartialStatement', 'ENDComment', 'ENDCData',
+    'ENDProcessingInstruction'
+];
+
+/**
+ * Creates editor which updates template `source` by applying minimal text
+ * patches to nodes of given `ast`, parsed from the same source. All node
+ * offsets refer to original source, edits are applied with `apply()` call
+ */
+export default function createEditor(source: string, ast?: ENDProgram): Editor {
+    const wraps = new Map<TextEdit, WrapTag>();
+    const editor: Editor = {
+        edits: [],
+
+        replace(start: number, end: number, text: string) {
+            const overlaps = editor.edits.some(edit => start < edit.end && end > edit.start);
+            if (overlaps) {
+                throw new Error(`Edit of ${start}:${end} range overlaps with previous edits`);
+            }
+
+            editor.edits.push({ start, end, text });
+        },
+
+        renameAttribute(node: ENDAttribute | ENDDirective, name: string) {
+            const start = offset(node, 'start');
+            editor.replace(start, start + attributeName(source, node).length, name);
+        },
+
+        setAttributeValue(node: ENDAttribute | ENDDirective, value: string | ENDAttributeValue) {
+            const text = printAttributeValue(typeof value === 'string' ? literal(value) : value);
+            const start = offset(node, 'start') + attributeName(source, node).length;
+            const end = offset(node, 'end');
+
+            if (!text) {
+                // Attribute without value
+                editor.replace(start, end, '');
+            } else {
+                editor.replace(start, end, `=${text}`);
+            }
+        },
+
+        wrapWith(node: Node, open: string) {
+            const m = open.match(/^<([\w:\-]+)/);
+            if (!m) {
+                throw new Error(`Invalid open tag ${open}`);
+            }
+
+            if (!isContent(node, ast)) {
+                throw new Error(`Unable to wrap ${node.type} node, only template content can be wrapped`);
+            }
+
+            let start = offset(node, 'start');
+            let end = offset(node, 'end');
+            if (node.type === 'Program' && source[start - 1] === '{' && source[end] === '}') {
+                // Location of expression doesn’t include curly braces
+                start--;
+                end++;
+            }
+
+            editor.replace(start, start, open);
+            wraps.set(editor.edits[editor.edits.length - 1], { open: true, start, end });
+            editor.replace(end, end, `</${m[1]}>`);
+            wraps.set(editor.edits[editor.edits.length - 1], { open: false, start, end });
+        },
+
+        removeNode(node: Node) {
+            let start = offset(node, 'start');
+            let end = offset(node, 'end');
+
+            if (node.type === 'ENDAttribute' || node.type === 'ENDDirective') {
+                // Remove leading space of attribute
+                while (start > 0 && isSpace(source[start - 1])) {
+                    start--;
+                }
+            } else {
+                let lineStart = start;
+                let lineEnd = end;
+                while (lineStart > 0 && isInlineSpace(source[lineStart - 1])) {
+                    lineStart--;
+                }
+                while (lineEnd < source.length && isInlineSpace(source[lineEnd])) {
+                    lineEnd++;
+                }
+
+                if ((lineStart === 0 || source[lineStart - 1] === '\n') && (lineEnd === source.length || isNewline(source[lineEnd]))) {
+                    // Node occupies the whole line
+                    start = lineStart;
+                    end = lineEnd + newlineLength(source, lineEnd);
+                }
+            }
+
+            editor.replace(start, end, '');
+        },
+
+        replaceExpression(program: Program, code: string) {
+            editor.replace(offset(program, 'start'), offset(program, 'end'), code);
+        },
+
+        apply(file?: string): EditorResult {
+            return applyEdits(source, nestWraps(editor.edits, wraps), ast && ast.filename, file);
+        }
+    };
+
+    return editor;
+}
+
+/**
+ * Applies given text edits to source and creates source map of result.
+ * `fileName` is a name of original source, `file` is a name of generated one
+ */
+export function applyEdits(source: string, edits: TextEdit[], fileName = '', file?: string): EditorResult {
+    // Sort edits by position, keeping insertion order for edits at the same point
+    const sorted = edits
+        .map((edit, index) => ({ edit, index }))
+        .sort((a, b) => a.edit.start - b.edit.start || a.edit.end - b.edit.end || a.index - b.index)
+        .map(item => item.edit);
+
+    const lineStarts = getLineStarts(source);
+    const mappings: Mapping[] = [];
+    let code = '';
+    let line = 0;
+    let column = 0;
+    let pos = 0;
+
+    const emit = (text: string, originalPos: number, copy: boolean) => {
+        const original = (p: number) => {
+            const origLine = findLine(lineStarts, p);
+            return { originalLine: origLine, originalColumn: p - lineStarts[origLine] };
+        };
+
+        mappings.push({ generatedLine: line, generatedColumn: column, ...original(originalPos) });
+
+        for (let i = 0; i < text.length; i++) {
+            if (text[i] === '\n') {
+                line++;
+                column = 0;
+                if (i < text.length - 1) {
+                    // Map start of each new line: copied text maps to the
+                    // same line of source, inserted text to edit location
+                    mappings.push({ generatedLine: line, generatedColumn: 0, ...original(copy ? originalPos + i + 1 : originalPos) });
+                }
+            } else {
+                column++;
+            }
+        }
+
+        code += text;
+    };
+
+    sorted.forEach(edit => {
+        if (edit.start > pos) {
+            emit(source.slice(pos, edit.start), pos, true);
+        }
+
+        if (edit.text) {
+            emit(edit.text, edit.start, false);
+        }
+
+        pos = Math.max(pos, edit.end);
+    });
+
+    if (pos < source.length) {
+        emit(source.slice(pos), pos, true);
+    }
+
+    return {
+        code,
+        map: createSourceMap(fileName, source, mappings, file),
+        edits: sorted
+    };
+}
+
+/**
+ * Orders inserts of wrapping tags at the same offset so that wrappers are
+ * properly nested: tags are closed before next ones are opened, inner wrappers
+ * are closed first and outer ones are opened first. Wrappers of the same node
+ * are nested in order of `wrapWith()` calls
+ */
+function nestWraps(edits: TextEdit[], wraps: Map<TextEdit, WrapTag>): TextEdit[] {
+    const rank = (tag?: WrapTag) => tag ? (tag.open ? 2 : 0) : 1;
+
+    return edits
+        .map((edit, index) => ({ edit, index, tag: wraps.get(edit) }))
+        .sort((a, b) => {
+            const delta = a.edit.start - b.edit.start || a.edit.end - b.edit.end || rank(a.tag) - rank(b.tag);
+            if (delta || !a.tag || !b.tag) {
+                return delta || a.index - b.index;
+            }
+
+            return a.tag.open
+                ? b.tag.end - a.tag.end || a.index - b.index
+                : b.tag.start - a.tag.start || b.index - a.index;
+        })
+        .map(item => item.edit);
+}
+
+/**
+ * Check if given node is a template content which can be wrapped with tag.
+ * Plain text and expressions are content only when listed in statement body
+ */
+function isContent(node: Node, ast?: ENDProgram): boolean {
+    if (node.type !== 'Literal' && node.type !== 'Program') {
+        return contentTypes.includes(node.type);
+    }
+
+    let found = !ast;
+    if (ast) {
+        walkTemplate(ast, item => {
+            found = found || ['body', 'consequent'].some(key => Array.isArray(item[key]) && item[key].includes(node));
+        });
+    }
+
+    return found;
+}
+
+/**
+ * Returns source name of given attribute or directive
+ */
+function attributeName(source: string, node: ENDAttribute | ENDDirective): string {
+    const m = source.slice(offset(node, 'start'), offset(node, 'end')).match(/^(\{[^}]*\}|[^\s=])+/);
+    return m ? m[0] : '';
+}
+
+function offset(node: Node, type: 'start' | 'end'): number {
+    const value = type === 'start' ? nodeStart(node) : nodeEnd(node);
+    if (value == null) {
+        throw new Error(`Node ${node.type} has no source location`);
+    }
+
+    return value;
+}
+
+function getLineStarts(source: string): number[] {
+    const result = [0];
+    for (let i = 0; i < source.length; i++) {
+        if (source[i] === '\n') {
+            result.push(i + 1);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Finds index of line which contains given offset
+ */
+function findLine(lineStarts: number[], pos: number): number {
+    let lo = 0;
+    let hi = lineStarts.length - 1;
+
+    while (lo < hi) {
+        const mid = (lo + hi + 1) >> 1;
+        if (lineStarts[mid] <= pos) {
+            lo = mid;
+        } else {
+            hi = mid - 1;
+        }
+    }
+
+    return lo;
+}
+
+function isSpace(ch: string): boolean {
+    return isInlineSpace(ch) || isNewline(ch);
+}
+
+function isInlineSpace(ch: string): boolean {
+    return ch === ' ' || ch === '\t';
+}
+
+function isNewline(ch: string): boolean {
+    return ch === '\n' || ch === '\r';
+}
+
+function newlineLength(source: string, pos: number): number {
+    if (source[pos] === '\r' && source[pos + 1] === '\n') {
+        return 2;
+    }
+
+    return isNewline(source[pos]) ? 1 : 0;
+}
@@ -0,0 +1,87 @@
+export interface SourceMap {
+    version: 3;
+    file?: string;
+    sources: string[];
+    sourcesContent: string[];
+    names: string[];
+    mappings: string;
+}
+
+/**
+ * Single mapping of generated position to original one
+ */
+export interface Mapping {
+    generatedLine: number;
+    generatedColumn: number;
+    originalLine: number;
+    originalColumn: number;
+}
+
+const base64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Creates source map with given mappings of single source. Line and column
+ * numbers of mappings are zero-based, mappings must be sorted by generated
+ * position
+ */
+export function createSourceMap(source: string, sourceContent: string, mappings: Mapping[], file?: string): SourceMap {
+    const lines: string[] = [];
+    let prevOrigLine = 0;
+    let prevOrigColumn = 0;
+    let line = 0;
+    let prevColumn = 0;
+    let segments: string[] = [];
+
+    mappings.forEach(mapping => {
+        while (line < mapping.generatedLine) {
+            lines.push(segments.join(','));
+            segments = [];
+            prevColumn = 0;
+            line++;
+        }
+
+        segments.push(encodeVLQ(mapping.generatedColumn - prevColumn)
+            + encodeVLQ(0)
+            + encodeVLQ(mapping.originalLine - prevOrigLine)
+            + encodeVLQ(mapping.originalColumn - prevOrigColumn));
+
+        prevColumn = mapping.generatedColumn;
+        prevOrigLine = mapping.originalLine;
+        prevOrigColumn = mapping.originalColumn;
+    });
+
+    lines.push(segments.join(','));
+
+    const map: SourceMap = {
+        version: 3,
+        sources: [source],
+        sourcesContent: [sourceContent],
+        names: [],
+        mappings: lines.join(';')
+    };
+
+    if (file) {
+        map.file = file;
+    }
+
+    return map;
+}
+
+/**
+ * Encodes given number as Base64 VLQ
+ */
+export function encodeVLQ(value: number): string {
+    let vlq = value < 0 ? ((-value) << 1) | 1 : value << 1;
+    let result = '';
+
+    do {
+        let digit = vlq & 31;
+        vlq >>>= 5;
+        if (vlq > 0) {
+            digit |= 32;
+        }
+        result += base64[digit];
+    } while (vlq > 0);
+
+    return result;
+}
@@ -1,6 +1,6 @@
 import Scanner from '../scanner';
-import { ENDAddClassStatement, ENDPlainStatement, ParsedTag } from '../ast';
-import { InnerStatement, ignored, tagName } from './utils';
+import { ENDAddClassStatement, ENDPlainStatement, ParsedTag, ENDCommentStatement } from '../ast';
+import { InnerStatement, ignored, comment, tagName } from './utils';
 import expression from '../expression';
 import text from '../text';
 import { closesTag } from '../tag';
@@ -18,11 +18,18 @@ export default function addClassStatement(scanner: Scanner, openTag: ParsedTag,
 
     // Consume plain statements only
     let token: ENDPlainStatement;
+    let note: ENDCommentStatement;
     while (!scanner.eof() && !closesTag(scanner, openTag)) {
         if (token = expression(scanner) || text(scanner)) {
             node.tokens.push(token);
+        } else if (note = comment(scanner)) {
+            (node.comments || (node.comments = [])).push(note);
         } else if (!ignored(scanner)) {
-            throw scanner.error(`Unexpected token, <${tagName(openTag)}> must contain text or expressions`);
+            const name = tagName(openTag);
+            scanner.report(scanner.error('END_INVALID_CONTENT', `Unexpected token, <${name}> must contain text or expressions`, scanner.pos, {
+                tag: name
+            }));
+            scanner.next();
         }
     }
 
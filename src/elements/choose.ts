@@ -1,7 +1,7 @@
 import Scanner from '../scanner';
 import { openTag, closesTag, tagBody } from '../tag';
-import { ENDChooseStatement, Program, ParsedTag, ENDAttribute } from '../ast';
-import { ignored, getControlName, InnerStatement, prefix, expectAttributeExpression, tagName } from './utils';
+import { ENDChooseStatement, Program, ParsedTag, ENDAttribute, ENDCommentStatement } from '../ast';
+import { ignored, comment, getControlName, InnerStatement, expectAttributeExpression, tagName } from './utils';
 
 /**
  * Consumes <choose> statement
@@ -20,17 +20,27 @@ export default function chooseStatement(scanner: Scanner, open: ParsedTag, next:
     };
     let finished = false;
     let tagEntry: ParsedTag;
+    let note: ENDCommentStatement;
 
     while (!scanner.eof() && !closesTag(scanner, open)) {
         // Accept <when> and <otherwise> statements only
         if (tagEntry = openTag(scanner)) {
-            const name = getControlName(tagName(tagEntry));
+            const name = getControlName(tagName(tagEntry), scanner.namespace);
             if (name !== 'when' && name !== 'otherwise') {
-                throw scanner.error(`Unexpected <${tagName(tagEntry)}> tag, expecting <${prefix}:when> or <${prefix}:otherwise>`, tagEntry);
+                scanner.report(scanner.error('END_UNEXPECTED_CHOOSE_CASE',
+                    `Unexpected <${tagName(tagEntry)}> tag, expecting <${scanner.namespace}:when> or <${scanner.namespace}:otherwise>`, tagEntry, {
+                        tag: tagName(tagEntry)
+                    }));
+                // Skip unexpected tag in recovery mode
+                tagBody(scanner, tagEntry, next);
+                continue;
             }
 
             if (finished) {
-                throw scanner.error(`Unexpected <${tagName(tagEntry)}> after <${prefix}:otherwise>`, tagEntry);
+                scanner.report(scanner.error('END_CASE_AFTER_OTHERWISE',
+                    `Unexpected <${tagName(tagEntry)}> after <${scanner.namespace}:otherwise>`, tagEntry, {
+                        tag: tagName(tagEntry)
+                    }));
             }
 
             let test: ENDAttribute;
@@ -46,8 +56,11 @@ export default function chooseStatement(scanner: Scanner, open: ParsedTag, next:
                 consequent: tagBody(scanner, tagEntry, next),
                 ...scanner.loc(tagEntry.start)
             });
+        } else if (note = comment(scanner)) {
+            (choose.comments || (choose.comments = [])).push(note);
         } else if (!ignored(scanner, true)) {
-            throw scanner.error('Unexpected token');
+            scanner.report(scanner.error('END_UNEXPECTED_TOKEN', 'Unexpected token'));
+            scanner.next();
         }
     }
 
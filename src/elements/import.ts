@@ -4,7 +4,8 @@ import { expectAttributeLiteral, getAttr, assertLiteral } from './utils';
 import { emptyBody } from '../tag';
 
 export default function importStatement(scanner: Scanner, openTag: ParsedTag): ENDImport {
-    const href = stringValue(expectAttributeLiteral(scanner, openTag, 'href'));
+    const hrefAttr = expectAttributeLiteral(scanner, openTag, 'href');
+    const href = stringValue(hrefAttr);
 
     let tagName: string;
     const asAttr = getAttr(openTag, 'as');
@@ -12,11 +13,15 @@ export default function importStatement(scanner: Scanner, openTag: ParsedTag): E
         assertLiteral(scanner, asAttr);
         tagName = stringValue(asAttr);
     } else {
-        // TODO provide overridable option to detect component name from import path
-        const parts = href.replace(/\.\w+$/, '').split(/[\\\/]/);
-        const fileName = parts.pop();
-        const dirName = parts.pop();
-        tagName = fileName.includes('-') ? fileName : dirName;
+        const { options } = scanner;
+        tagName = (options && options.resolveImportName && options.resolveImportName(href, openTag))
+            || getImportName(href);
+
+        if (!tagName || !tagName.includes('-')) {
+            scanner.report(scanner.error('END_INVALID_IMPORT_NAME',
+                `Unable to detect component name from "${href}": name must contain dash, use "as" attribute to specify name`,
+                hrefAttr.value || openTag, { href, name: tagName || '' }));
+        }
     }
 
     emptyBody(scanner, openTag);
@@ -24,10 +29,21 @@ export default function importStatement(scanner: Scanner, openTag: ParsedTag): E
         type: 'ENDImport',
         name: tagName,
         href,
+        explicit: !!asAttr,
         ...scanner.loc(openTag.start)
     };
 }
 
+/**
+ * Detects component name from given import path
+ */
+export function getImportName(href: string): string {
+    const parts = href.replace(/\.\w+$/, '').split(/[\\\/]/);
+    const fileName = parts.pop();
+    const dirName = parts.pop();
+    return fileName.includes('-') ? fileName : dirName;
+}
+
 function stringValue(attr: ENDAttribute): string {
     return String((attr.value as Literal).value);
 }
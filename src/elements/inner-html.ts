@@ -1,7 +1,7 @@
 import Scanner from '../scanner';
 import { ENDInnerHTML } from '../ast';
-import { EXPRESSION_START, EXPRESSION_END, parseJS } from '../expression';
-import { eatQuoted, ESCAPE } from '../utils';
+import { EXPRESSION_START, EXPRESSION_END, parseJS, placeholder } from '../expression';
+import { eatQuoted, ESCAPE, TAG_START } from '../utils';
 
 /**
  * Consumes inner HTML expression
@@ -30,11 +30,18 @@ export default function innerHTML(scanner: Scanner): ENDInnerHTML {
                     if (scanner.eat(EXPRESSION_END)) {
                         return {
                             type: 'ENDInnerHTML',
-                            value: parseJS(scanner.substring(start + 2, scanner.pos - 2), scanner),
+                            value: parseJS(scanner.substring(start + 2, scanner.pos - 2), {
+                                ...scanner.options,
+                                url: scanner.url,
+                                offset: scanner.sourceLocation(start + 2)
+                            }),
                             ...scanner.loc(start)
                         };
                     } else {
-                        throw scanner.error(`Expecting ${String.fromCharCode(EXPRESSION_END).repeat(2)} at the end of inner HTML expression`);
+                        const expected = String.fromCharCode(EXPRESSION_END).repeat(2);
+                        const error = `Expecting ${expected} at the end of inner HTML expression`;
+                        scanner.report(scanner.error('END_UNCLOSED_INNER_HTML', error, scanner.pos, { expected }));
+                        return recover(scanner, start, scanner.pos - 1);
                     }
                 } else {
                     stack--;
@@ -44,8 +51,27 @@ export default function innerHTML(scanner: Scanner): ENDInnerHTML {
             }
         }
 
-        throw scanner.error(`Unable to find matching pair for ${String.fromCharCode(EXPRESSION_START).repeat(2)}`);
+        const message = `Unable to find matching pair for ${String.fromCharCode(EXPRESSION_START).repeat(2)}`;
+        scanner.report(scanner.error('END_UNCLOSED_PAIR', message, start, {
+            expected: String.fromCharCode(EXPRESSION_END).repeat(2)
+        }));
+
+        // Unclosed expression ends at next tag
+        scanner.pos = start + 2;
+        scanner.eatWhile(code => code !== TAG_START);
+        return recover(scanner, start, scanner.pos);
     }
 
     scanner.pos = start;
 }
+
+/**
+ * Creates inner HTML with placeholder expression in recovery mode
+ */
+function recover(scanner: Scanner, start: number, end: number): ENDInnerHTML {
+    return {
+        type: 'ENDInnerHTML',
+        value: placeholder(scanner.substring(start + 2, end), scanner.loc(start + 2, end)),
+        ...scanner.loc(start)
+    };
+}
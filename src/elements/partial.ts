@@ -17,7 +17,7 @@ export default function partialStatement(scanner: Scanner, openTag: ParsedTag):
     return {
         type: 'ENDPartialStatement',
         id: tagName(openTag).slice(prefix.length),
-        params: getAttributes(openTag),
+        params: getAttributes(openTag, scanner.namespace),
         ...scanner.loc(openTag.start)
     };
 }
@@ -6,8 +6,8 @@ import { tagText } from '../tag';
 const defaultMIME = 'text/javascript';
 
 export default function scriptStatement(scanner: Scanner, openTag: ParsedTag): ENDScript {
-    const src = getAttrValueIfLiteral(openTag, 'src');
-    const mime = getAttrValueIfLiteral(openTag, 'type');
+    const src = getAttrValueIfLiteral(scanner, openTag, 'src');
+    const mime = getAttrValueIfLiteral(scanner, openTag, 'type');
     const text = tagText(scanner, openTag);
     const hasText = text && text.value && !/^\s+$/.test(String(text.value));
 
@@ -13,7 +13,7 @@ export default function stylesheetStatement(scanner: Scanner, openTag: ParsedTag
 
         return {
             type: 'ENDStylesheet',
-            mime: getMIME(openTag),
+            mime: getMIME(scanner, openTag),
             url: String(href.value).trim(),
             ...scanner.loc(openTag.start)
         };
@@ -24,7 +24,7 @@ export default function stylesheetStatement(scanner: Scanner, openTag: ParsedTag
     if (text && text.value && !/^\s+$/.test(String(text.value))) {
         return {
             type: 'ENDStylesheet',
-            mime: getMIME(openTag),
+            mime: getMIME(scanner, openTag),
             content: String(text.value),
             url: scanner.url,
             ...scanner.loc(openTag.start)
@@ -32,7 +32,7 @@ export default function stylesheetStatement(scanner: Scanner, openTag: ParsedTag
     }
 }
 
-function getMIME(tag: ParsedTag): string {
-    const mime = getAttrValueIfLiteral(tag, 'type');
+function getMIME(scanner: Scanner, tag: ParsedTag): string {
+    const mime = getAttrValueIfLiteral(scanner, tag, 'type');
     return mime ? String(mime).trim() : defaultMIME;
 }
@@ -1,7 +1,10 @@
 import Scanner from '../scanner';
-import { toCharCodes, eatSection, isSpace, isLiteral, isIdentifier } from '../utils';
-import { LiteralValue, ENDStatement, ENDAttribute, ParsedTag, ENDElement, ENDAttributeStatement, ENDDirective } from '../ast';
-import { ENDCompileError } from '../syntax-error';
+import { toCharCodes, eatSection, isSpace, isLiteral, isIdentifier, identifier, literal } from '../utils';
+import { placeholder } from '../expression';
+import {
+    LiteralValue, ENDStatement, ENDAttribute, ParsedTag, ENDElement, ENDAttributeStatement, ENDDirective,
+    ENDCommentStatement, ENDIfStatement
+} from '../ast';
 
 const cdataOpen = toCharCodes('<![CDATA[');
 const cdataClose = toCharCodes(']]>');
@@ -11,10 +14,10 @@ const piOpen = toCharCodes('<?');
 const piClose = toCharCodes('?>');
 
 /**
- * A prefix for Endorphin element and attribute names
+ * A prefix for Endorphin element and attribute names. Parsed directives always
+ * use this prefix, even if template uses custom namespace
  */
 export const prefix = 'e';
-const nsPrefix = prefix + ':';
 
 export type InnerStatement = (scanner: Scanner, openTag: ParsedTag, next?: InnerStatement) => ENDStatement;
 
@@ -28,11 +31,63 @@ export function ignored(scanner: Scanner, space?: boolean): boolean {
         || (space && scanner.eatWhile(isSpace));
 }
 
+/**
+ * Consumes HTML comment, CDATA section or processing instruction as AST node,
+ * if `includeComments` parser option is enabled
+ */
+export function comment(scanner: Scanner): ENDCommentStatement {
+    if (!scanner.options || !scanner.options.includeComments) {
+        return;
+    }
+
+    const start = scanner.pos;
+
+    if (eatSection(scanner, commentOpen, commentClose, true)) {
+        return {
+            type: 'ENDComment',
+            value: sectionValue(scanner, start, commentOpen, commentClose),
+            ...scanner.loc(start)
+        };
+    }
+
+    if (eatSection(scanner, cdataOpen, cdataClose)) {
+        return {
+            type: 'ENDCData',
+            value: sectionValue(scanner, start, cdataOpen, cdataClose),
+            ...scanner.loc(start)
+        };
+    }
+
+    if (eatSection(scanner, piOpen, piClose)) {
+        return {
+            type: 'ENDProcessingInstruction',
+            value: sectionValue(scanner, start, piOpen, piClose),
+            ...scanner.loc(start)
+        };
+    }
+}
+
+/**
+ * Returns contents of section consumed from `start` to current location,
+ * without open and close parts
+ */
+function sectionValue(scanner: Scanner, start: number, open: number[], close: number[]): string {
+    const value = scanner.substring(start + open.length, scanner.pos);
+    const closeStr = String.fromCharCode(...close);
+
+    // Section may be unclosed
+    return value.endsWith(closeStr) && scanner.pos - start >= open.length + close.length
+        ? value.slice(0, -close.length)
+        : value;
+}
+
 /**
  * Returns control statement name from given tag name if possible
  * @param name Tag name
+ * @param ns Endorphin namespace prefix used in template
  */
-export function getControlName(name: string): string {
+export function getControlName(name: string, ns: string = prefix): string {
+    const nsPrefix = ns + ':';
     if (name.startsWith(nsPrefix)) {
         return name.slice(nsPrefix.length);
     }
@@ -71,14 +126,16 @@ export function getAttrValue(tag: ParsedTag | ENDElement | ENDAttributeStatement
 /**
  * Returns value of attribute with given name from tag name definition, if any
  */
-export function getAttrValueIfLiteral(tag: ParsedTag, name: string): LiteralValue {
+export function getAttrValueIfLiteral(scanner: Scanner, tag: ParsedTag, name: string): LiteralValue {
     const attr = getAttr(tag, name);
     if (attr) {
         if (isLiteral(attr.value)) {
             return attr.value.value;
         }
 
-        throw new ENDCompileError(`Expecting literal value of ${name} attribute in <${tagName(tag)}> tag`, attr.value);
+        // In recovery mode, attribute with invalid value is ignored
+        const message = `Expecting literal value of ${name} attribute in <${tagName(tag)}> tag`;
+        scanner.report(scanner.error('END_EXPECTED_LITERAL', message, attr.value || attr));
     }
 }
 
@@ -89,12 +146,21 @@ export function getDirective(tag: ParsedTag, dirPrefix: string, name?: string):
     return tag.directives.find(dir => dir.prefix === dirPrefix && (!name || dir.name === name));
 }
 
+/**
+ * Check if given statement was produced by `e:if` directive of element
+ */
+export function isIfDirective(node: ENDIfStatement): boolean {
+    const elem = node.consequent.length === 1 && node.consequent[0];
+    return elem && elem.type === 'ENDElement'
+        && elem.directives.some(dir => dir.prefix === prefix && dir.name === 'if' && dir.value === node.test);
+}
+
 /**
  * Returns list of all valid attributes from given tag, e.g. all attributes
  * except ones that have special meaning to Endorphin compiler
  */
-export function getAttributes(tag: ParsedTag): ENDAttribute[] {
-    return tag.attributes.filter(attr => isIdentifier(attr.name) ? !attr.name.name.startsWith(nsPrefix) : true);
+export function getAttributes(tag: ParsedTag, ns: string = prefix): ENDAttribute[] {
+    return tag.attributes.filter(attr => isIdentifier(attr.name) ? !attr.name.name.startsWith(ns + ':') : true);
 }
 
 /**
@@ -104,7 +170,19 @@ export function getAttributes(tag: ParsedTag): ENDAttribute[] {
 export function expectAttribute(scanner: Scanner, tag: ParsedTag, name: string): ENDAttribute {
     const attr = getAttr(tag, name);
     if (!attr) {
-        throw scanner.error(`Expecting "${name}" attribute in <${tagName(tag)}> element`, tag);
+        scanner.report(scanner.error('END_MISSING_ATTRIBUTE', `Expecting "${name}" attribute in <${tagName(tag)}> element`, tag, {
+            attribute: name,
+            tag: tagName(tag)
+        }));
+
+        // In recovery mode, create stub attribute instead of missing one
+        const loc = { start: tag.start, end: tag.start, loc: tag.loc };
+        return {
+            type: 'ENDAttribute',
+            name: identifier(name, loc),
+            value: null,
+            ...loc
+        };
     }
 
     return attr;
@@ -126,7 +204,7 @@ export function expectAttributeLiteral(scanner: Scanner, tag: ParsedTag, name: s
  * Check if value of given attribute is an expression. If not, throws exception
  */
 export function assertExpression(scanner: Scanner, attr: ENDAttribute | ENDDirective): void {
-    if (attr.value.type !== 'Program') {
+    if (!attr.value || attr.value.type !== 'Program') {
         let attrName: string;
         if (attr.type === 'ENDDirective') {
             attrName = `${attr.prefix}:${attr.name}`;
@@ -134,7 +212,10 @@ export function assertExpression(scanner: Scanner, attr: ENDAttribute | ENDDirec
             attrName = attr.name.name;
         }
 
-        throw scanner.error(`Expecting expression as${attrName ? ` "${attrName}"` : ''} attribute value`, attr);
+        scanner.report(scanner.error('END_EXPECTED_EXPRESSION', `Expecting expression as${attrName ? ` "${attrName}"` : ''} attribute value`, attr, {
+            attribute: attrName
+        }));
+        attr.value = placeholder('', { start: attr.start, end: attr.end, loc: attr.loc });
     }
 }
 
@@ -144,6 +225,9 @@ export function assertExpression(scanner: Scanner, attr: ENDAttribute | ENDDirec
 export function assertLiteral(scanner: Scanner, attr: ENDAttribute): void {
     if (!isLiteral(attr.value)) {
         const attrName: string = isIdentifier(attr.name) ? attr.name.name : null;
-        throw scanner.error(`Expecting string literal as${attrName ? ` "${attrName}"` : ''} attribute value`, attr);
+        scanner.report(scanner.error('END_EXPECTED_LITERAL', `Expecting string literal as${attrName ? ` "${attrName}"` : ''} attribute value`, attr, {
+            attribute: attrName
+        }));
+        attr.value = literal('', null, { start: attr.start, end: attr.end, loc: attr.loc });
     }
 }
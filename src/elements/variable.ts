@@ -2,7 +2,6 @@ import Scanner from '../scanner';
 import { ENDVariableStatement, ENDVariable, ParsedTag, ENDAttribute } from '../ast';
 import { emptyBody } from '../tag';
 import { isIdentifier } from '../utils';
-import { ENDCompileError } from '../syntax-error';
 
 /**
  * Consumes <variable> statement
@@ -13,14 +12,16 @@ export default function variableStatement(scanner: Scanner, openTag: ParsedTag):
     emptyBody(scanner, openTag);
     return {
         type: 'ENDVariableStatement',
-        variables: openTag.attributes.map(attrToVariable),
+        variables: openTag.attributes.map(attr => attrToVariable(scanner, attr)).filter(Boolean),
         loc: openTag.loc
     };
 }
 
-function attrToVariable(attr: ENDAttribute): ENDVariable {
+function attrToVariable(scanner: Scanner, attr: ENDAttribute): ENDVariable {
     if (!isIdentifier(attr.name)) {
-        throw new ENDCompileError(`Expecting identifier as variable name`, attr.name);
+        // In recovery mode, variable with invalid name is skipped
+        scanner.report(scanner.error('END_INVALID_VARIABLE_NAME', `Expecting identifier as variable name`, attr.name));
+        return null;
     }
 
     return {
@@ -0,0 +1,90 @@
+import Scanner from '../scanner';
+import named, { legacy } from './named';
+
+/**
+ * Replacements for numeric references to C1 control characters, as
+ * defined in HTML spec
+ */
+const numericReplacements = {
+    0x80: 0x20AC, 0x82: 0x201A, 0x83: 0x0192, 0x84: 0x201E, 0x85: 0x2026, 0x86: 0x2020,
+    0x87: 0x2021, 0x88: 0x02C6, 0x89: 0x2030, 0x8A: 0x0160, 0x8B: 0x2039, 0x8C: 0x0152,
+    0x8E: 0x017D, 0x91: 0x2018, 0x92: 0x2019, 0x93: 0x201C, 0x94: 0x201D, 0x95: 0x2022,
+    0x96: 0x2013, 0x97: 0x2014, 0x98: 0x02DC, 0x99: 0x2122, 0x9A: 0x0161, 0x9B: 0x203A,
+    0x9C: 0x0153, 0x9E: 0x017E, 0x9F: 0x0178
+};
+
+const reference = /&(?:#(\d+)|#[xX]([\da-fA-F]+)|([a-zA-Z][a-zA-Z\d]*))(;?)/g;
+
+/**
+ * Decodes HTML character references in source fragment of given scanner
+ * in `start:end` range. Invalid references are reported as warnings.
+ * @param attribute Fragment is an attribute value: references without
+ * semicolon which are followed by `=` or alphanumeric character are kept as is
+ */
+export default function decode(scanner: Scanner, start: number, end: number, attribute = false): string {
+    const source = scanner.substring(start, end);
+
+    if (!source.includes('&')) {
+        return source;
+    }
+
+    return source.replace(reference, (match: string, dec: string, hex: string, name: string, semicolon: string, offset: number) => {
+        const pos = start + offset;
+
+        if (name) {
+            return decodeNamed(scanner, match, name, semicolon, pos, attribute);
+        }
+
+        const code = parseInt(dec || hex, dec ? 10 : 16);
+        if (!semicolon) {
+            warnSemicolon(scanner, match, pos);
+        }
+
+        if (code === 0 || code > 0x10FFFF || (code >= 0xD800 && code <= 0xDFFF)) {
+            scanner.warn('END_INVALID_CHARACTER_REFERENCE', `Invalid character reference ${match}`, pos, pos + match.length, {
+                reference: match
+            });
+            return '\uFFFD';
+        }
+
+        return String.fromCodePoint(numericReplacements[code] || code);
+    });
+}
+
+function decodeNamed(scanner: Scanner, match: string, name: string, semicolon: string, pos: number, attribute: boolean): string {
+    if (semicolon && named.hasOwnProperty(name)) {
+        return named[name];
+    }
+
+    // Find the longest legacy reference which can be used without semicolon,
+    // e.g. `&notit;` is `¬it;`
+    let len = name.length;
+    while (len > 0 && !legacy.has(name.slice(0, len))) {
+        len--;
+    }
+
+    if (!len) {
+        if (semicolon) {
+            scanner.warn('END_UNKNOWN_ENTITY', `Unknown named character reference ${match}`, pos, pos + match.length, {
+                reference: match
+            });
+        }
+
+        return match;
+    }
+
+    const rest = match.slice(len + 1);
+    if (attribute && /^[=a-zA-Z\d]/.test(rest || scanner.substring(pos + match.length, pos + match.length + 1))) {
+        // Historical reasons: keep references like `?a=1&copy=2` in attributes
+        return match;
+    }
+
+    warnSemicolon(scanner, match.slice(0, len + 1), pos);
+    return named[name.slice(0, len)] + rest;
+}
+
+function warnSemicolon(scanner: Scanner, ref: string, pos: number): void {
+    scanner.warn('END_MISSING_ENTITY_SEMICOLON', `Missing semicolon after character reference ${ref}`, pos, pos + ref.length, {
+        reference: ref
+    });
+}
@@ -1,5 +1,6 @@
 // @ts-ignore
-import { Parser, isIdentifierStart, isIdentifierChar, tokTypes, keywordTypes } from 'acorn';
+import { Parser, Position, isIdentifierStart, isIdentifierChar, tokTypes, keywordTypes } from 'acorn';
+import { Expression, CallExpression } from '../ast';
 
 /**
  * Acorn plugin for parsing Endorphin expressions
@@ -11,10 +12,39 @@ export default function endorphinJS(P: typeof Parser): typeof Parser {
             if (isIdentifierStart(code) || code === 35 /* # */ || code === 64 /* @ */) {
                 return this.end_readWord();
             }
+
             // @ts-ignore
             super.readToken(code);
         }
 
+        /**
+         * Desugars pipe into function call: `value | fn(arg)` is `fn(value, arg)`.
+         * Bitwise OR is a pipe if its right operand is a function reference, like
+         * `fn` or `obj.fn`, or a call of it. Parenthesized operand, like
+         * `value | (mask)`, is kept as bitwise OR
+         */
+        buildBinary(startPos: number, startLoc: Position, left: Expression, right: Expression, op: string, logical: boolean): Expression {
+            // @ts-ignore
+            if (op === '|' && isPipeTarget(right) && !this.input.slice(left.end, right.start).includes('(')) {
+                // @ts-ignore
+                const node: CallExpression = this.startNodeAt(startPos, startLoc);
+                if (right.type === 'CallExpression') {
+                    node.callee = right.callee;
+                    node.arguments = [left, ...right.arguments];
+                } else {
+                    node.callee = right;
+                    node.arguments = [left];
+                }
+                node.optional = false;
+                node.pipe = true;
+                // @ts-ignore
+                return this.finishNode(node, 'CallExpression');
+            }
+
+            // @ts-ignore
+            return super.buildBinary(startPos, startLoc, left, right, op, logical);
+        }
+
         /**
          * Reads Endorphin identifier. Unlike JS identifier, this one may start from
          * `#` or `@` and contain dash in name. Also assumes that first character was
@@ -39,3 +69,12 @@ export default function endorphinJS(P: typeof Parser): typeof Parser {
         }
     };
 }
+
+/**
+ * Check if given node can be used as pipe target: a function reference or
+ * its call
+ */
+function isPipeTarget(node: Expression): boolean {
+    const target = node.type === 'CallExpression' && !node.optional ? node.callee : node;
+    return target.type === 'Identifier' || target.type === 'MemberExpression';
+}
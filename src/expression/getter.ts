@@ -39,11 +39,7 @@ export function createGetter(expr: MemberExpression): ENDGetter | MemberExpressi
                 break;
             }
 
-            if (isIdentifier(ctx.property) && !ctx.computed) {
-                result.path.unshift(idToLiteral(ctx.property));
-            } else {
-                result.path.unshift(convert(ctx.property));
-            }
+            result.path.unshift(accessor(ctx));
 
             ctx = ctx.object;
         } else {
@@ -59,6 +55,21 @@ export function createGetter(expr: MemberExpression): ENDGetter | MemberExpressi
     return result;
 }
 
+/**
+ * Returns path fragment for property of given member expression
+ */
+function accessor(expr: MemberExpression): ENDGetterPathFragment {
+    const fragment: ENDGetterPathFragment = isIdentifier(expr.property) && !expr.computed
+        ? idToLiteral(expr.property)
+        : convert(expr.property);
+
+    if (expr.optional) {
+        fragment.optional = true;
+    }
+
+    return fragment;
+}
+
 function idToLiteral(id: Identifier): Literal {
     return literal(id.name, null, {
         start: id.start,
@@ -82,12 +93,22 @@ export function createCaller(expr: CallExpression): ENDCaller | CallExpression {
         }
 
         if (callee.context !== 'store') {
-            return {
+            const caller: ENDCaller = {
                 type: 'ENDCaller',
                 object: getterPrefix(callee.context),
                 property: idToLiteral(callee),
                 arguments: expr.arguments
             };
+
+            if (expr.optional) {
+                caller.optional = true;
+            }
+
+            if (expr.pipe) {
+                caller.pipe = true;
+            }
+
+            return caller;
         }
     }
 
@@ -97,14 +118,22 @@ export function createCaller(expr: CallExpression): ENDCaller | CallExpression {
             return expr;
         }
 
-        return {
+        const caller: ENDCaller = {
             type: 'ENDCaller',
             object: convert(callee.object),
-            property: isIdentifier(callee.property)
-                ? idToLiteral(callee.property)
-                : callee.property,
+            property: accessor(callee),
             arguments: expr.arguments
         };
+
+        if (expr.optional) {
+            caller.optional = true;
+        }
+
+        if (expr.pipe) {
+            caller.pipe = true;
+        }
+
+        return caller;
     }
 
     return expr;
@@ -1,14 +1,28 @@
-import { Parser, Position } from 'acorn';
+import { Parser } from 'acorn';
 import endorphinParser from './acorn-plugin';
-import { Program, Identifier, Expression, Node, JSNode, Statement } from '../ast';
-import Scanner from '../scanner';
-import { walkFullAncestor as walk } from '../walk';
-import { eatPair, isIdentifier, isFunction } from '../utils';
+import { Program, Expression, Node, Statement, Position, VariableDeclarator, Identifier, AssignmentExpression } from '../ast';
+import Scanner, { SourceData } from '../scanner';
+import { walkFull as walk } from '../walk';
+import { eatPair, isIdentifier, isNode } from '../utils';
 import { ENDSyntaxError } from '../syntax-error';
 import { convert } from './getter';
+import { resolveLocals, patternIdentifiers } from './scope';
 import { ParserOptions } from '../parse';
 
-export const jsGlobals = new Set(['Math', 'String', 'Boolean', 'Object']);
+/**
+ * Built-in ECMAScript globals, which are used in expressions as is
+ */
+export const jsGlobals = new Set([
+    'globalThis', 'Infinity', 'NaN', 'undefined',
+    'eval', 'isFinite', 'isNaN', 'parseFloat', 'parseInt',
+    'decodeURI', 'decodeURIComponent', 'encodeURI', 'encodeURIComponent', 'escape', 'unescape',
+    'Array', 'ArrayBuffer', 'Atomics', 'BigInt', 'BigInt64Array', 'BigUint64Array', 'Boolean',
+    'DataView', 'Date', 'Error', 'EvalError', 'Float32Array', 'Float64Array', 'Function',
+    'Int8Array', 'Int16Array', 'Int32Array', 'Intl', 'JSON', 'Map', 'Math', 'Number', 'Object',
+    'Promise', 'Proxy', 'RangeError', 'ReferenceError', 'Reflect', 'RegExp', 'Set',
+    'SharedArrayBuffer', 'String', 'Symbol', 'SyntaxError', 'TypeError', 'Uint8Array',
+    'Uint8ClampedArray', 'Uint16Array', 'Uint32Array', 'URIError', 'WeakMap', 'WeakSet'
+]);
 
 export interface JSParserOptions extends ParserOptions {
     offset?: Position;
@@ -35,15 +49,34 @@ export default function expression(scanner: Scanner): Program {
         scanner.start++;
         const begin = scanner.start;
         const end = scanner.pos - 1;
+        const code = scanner.substring(begin, end);
 
-        return parseJS(scanner.substring(begin, end), {
-            ...scanner.options,
-            url: scanner.url,
-            offset: scanner.sourceLocation(begin)
-        });
+        try {
+            return parseJS(code, {
+                ...scanner.options,
+                url: scanner.url,
+                offset: scanner.sourceLocation(begin)
+            });
+        } catch (err) {
+            scanner.report(err);
+            return placeholder(code, scanner.loc(begin, end));
+        }
     }
 }
 
+/**
+ * Creates empty program which is used as a placeholder for invalid expression
+ * in recovery mode
+ */
+export function placeholder(code: string, loc: SourceData): Program {
+    return {
+        type: 'Program',
+        raw: code,
+        body: [],
+        ...loc
+    };
+}
+
 /**
  * Parses given JS code into AST and prepares it for Endorphin expression evaluation
  * @param code Code to parse
@@ -54,47 +87,48 @@ export function parseJS(code: string, options: JSParserOptions = {}): Program {
     let ast: Program;
     try {
         ast = JSParser.parse(code, {
+            ecmaVersion: 2020,
             sourceType: 'module',
             sourceFile: options.url,
             locations: true
         }) as Program;
     } catch (err) {
         const message = err.message.replace(/\s*\(\d+:\d+\)$/, '');
-        const loc = { ...err.loc } as Position;
+        const loc = { ...err.loc, offset: err.pos } as Position;
         if (options.offset) {
             offsetPos(loc, options.offset);
         }
-        throw new ENDSyntaxError(message, options.url, loc, code);
+        throw new ENDSyntaxError(message, options.url, loc, code, { code: 'END_JS_SYNTAX' });
+    }
+
+    // Upgrade token locations
+    if (options.offset) {
+        offsetLocations(ast, options.offset, new Set());
     }
 
     // Walk over AST and validate & upgrade nodes
-    walk(ast, (node: Node, state, ancestors: Expression[]) => {
-        // Upgrade token locations
-        if (options.offset) {
-            node.start += options.offset.offset;
-            node.end += options.offset.offset;
-            if (node.loc) {
-                offsetPos(node.loc.start, options.offset);
-                offsetPos(node.loc.end, options.offset);
-            }
+    const locals = resolveLocals(ast);
+    locals.forEach((decl, id) => {
+        // Mark declarations of function params, references to them are kept as is
+        if (decl === id) {
+            id.context = 'definition';
         }
+    });
 
+    walk(ast, (node: Node) => {
         if (isIdentifier(node)) {
-            if (jsGlobals.has(node.name) || isReserved(node, ancestors)) {
-                return;
+            resolveContext(node, locals, options);
+        } else {
+            if (node.type === 'AssignmentExpression') {
+                // Identifiers of assignment target are walked as patterns
+                // and not reported by walker
+                patternIdentifiers((node as AssignmentExpression).left)
+                    .forEach(id => resolveContext(id, locals, options));
             }
 
-            const prefix = node.name[0];
-            if (prefix in prefixes) {
-                node.context = prefixes[prefix];
-                node.raw = node.name;
-                node.name = node.name.slice(prefix.length);
-            } else {
-                node.context = options.helpers && options.helpers.includes(node.name)
-                    ? 'helper' : 'property';
+            if (!options.disableGetters) {
+                upgradeContent(node as Expression);
             }
-        } else if (!options.disableGetters) {
-            upgradeContent(node as Expression);
         }
     });
 
@@ -102,25 +136,40 @@ export function parseJS(code: string, options: JSParserOptions = {}): Program {
 }
 
 /**
- * Check if given identifier is reserved by outer scope
+ * Resolves context of given identifier, referenced in expression
  */
-function isReserved(id: Identifier, ancestors: Expression[]): boolean {
-    const last = ancestors[ancestors.length - 1];
+function resolveContext(node: Identifier, locals: Map<Identifier, Identifier>, options: ParserOptions): void {
+    if (node.context || locals.has(node) || isGlobal(node.name, options)) {
+        return;
+    }
 
-    if (last) {
-        return isProperty(id, last)
-            || isAssignment(id, last)
-            || ancestors.some(expr => isFunctionArgument(id, expr));
+    const prefix = node.name[0];
+    if (prefix in prefixes) {
+        node.context = prefixes[prefix];
+        node.raw = node.name;
+        node.name = node.name.slice(prefix.length);
+    } else {
+        node.context = options.helpers && options.helpers.includes(node.name)
+            ? 'helper' : 'property';
     }
+}
 
-    return false;
+/**
+ * Check if given identifier name is a global object
+ */
+export function isGlobal(name: string, options: ParserOptions): boolean {
+    if (options.globals && options.globals.hasOwnProperty(name)) {
+        return options.globals[name];
+    }
+
+    return jsGlobals.has(name);
 }
 
 /**
  * Upgrades contents of given node, if possible: converts `MemberExpression` and
  * `CallExpression` children with getters and callers
  */
-function upgradeContent(node: Expression | Statement): void {
+function upgradeContent(node: Expression | Statement | VariableDeclarator): void {
     switch (node.type) {
         case 'AssignmentPattern':
             node.right = convert(node.right);
@@ -147,13 +196,25 @@ function upgradeContent(node: Expression | Statement): void {
             node.expressions = node.expressions.map(convert);
             break;
         case 'ExpressionStatement':
+        case 'ChainExpression':
             node.expression = convert(node.expression);
             break;
+        case 'VariableDeclarator':
+            if (node.init) {
+                node.init = convert(node.init);
+            }
+            break;
         case 'ReturnStatement':
             if (node.argument) {
                 node.argument = convert(node.argument);
             }
             break;
+        case 'CallExpression':
+            if (node.pipe) {
+                // Piped value, which may be a previous pipe stage
+                node.arguments[0] = convert(node.arguments[0] as Expression);
+            }
+            break;
         case 'ArrowFunctionExpression':
             if (node.expression) {
                 node.body = convert(node.body as Expression);
@@ -162,6 +223,34 @@ function upgradeContent(node: Expression | Statement): void {
     }
 }
 
+/**
+ * Shifts locations of all nodes in given JS AST by `offset`. Since nodes may
+ * share the same position objects, every object is updated only once
+ */
+function offsetLocations(node: Node | Node[] | unknown, offset: Position, visited: Set<object>): void {
+    if ((Array.isArray(node) || isNode(node)) && !visited.has(node)) {
+        visited.add(node);
+
+        if (Array.isArray(node)) {
+            node.forEach(item => offsetLocations(item, offset, visited));
+        } else {
+            node.start += offset.offset;
+            node.end += offset.offset;
+
+            if (node.loc) {
+                [node.loc.start, node.loc.end].forEach((pos: Position) => {
+                    if (!visited.has(pos)) {
+                        visited.add(pos);
+                        offsetPos(pos, offset);
+                    }
+                });
+            }
+
+            Object.keys(node).forEach(key => key !== 'loc' && offsetLocations(node[key], offset, visited));
+        }
+    }
+}
+
 function offsetPos(pos: Position, offset: Position): Position {
     if (pos.line === 1) {
         pos.column += offset.column;
@@ -172,38 +261,3 @@ function offsetPos(pos: Position, offset: Position): Position {
     }
     return pos;
 }
-
-/**
- * Check if given identifier is a function argument
- */
-function isFunctionArgument(id: Identifier, expr: Expression): boolean {
-    return isFunction(expr) && expr.params.some(param => {
-        if (param.type === 'ObjectPattern') {
-            return param.properties.some(({ value }) => isSameIdentifier(id, value));
-        }
-
-        if (param.type === 'ArrayPattern') {
-            return param.elements.some(elem => isSameIdentifier(id, elem));
-        }
-
-        return isSameIdentifier(id, param);
-    });
-}
-
-function isSameIdentifier(id: Identifier, node: JSNode): boolean {
-    return isIdentifier(node) && node.name === id.name;
-}
-
-/**
- * Check if given identifier is an object property
- */
-function isProperty(id: Identifier, expr: Expression): boolean {
-    return expr.type === 'MemberExpression' && expr.property === id;
-}
-
-/**
- * Check if given identifier is a left part of assignment expression
- */
-function isAssignment(id: Identifier, expr: Expression): boolean {
-    return 'left' in expr && expr.left === id;
-}
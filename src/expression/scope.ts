@@ -0,0 +1,188 @@
+import {
+    Node, Identifier, Program, FunctionDeclaration, ArrowFunctionExpression, BlockStatement, Statement,
+    Pattern, AssignmentPattern, RestElement
+} from '../ast';
+import { walkRecursive, AstWalkerContinuation } from '../walk';
+
+/**
+ * Kind of identifier binding in template expression:
+ * * `param`: function parameter, declared in expression itself;
+ * * `variable`: template variable, e.g. `@name`. Whether it’s declared with
+ *   `<e:variable>` or implicitly by `<e:for-each>` depends on declaring
+ *   template node, see `analyzeVariables()`;
+ * * `context`: component property, state or store value;
+ * * `helper`: helper function;
+ * * `global`: global object.
+ */
+export type BindingKind = 'param' | 'variable' | 'context' | 'helper' | 'global';
+
+export interface Binding {
+    kind: BindingKind;
+    name: string;
+
+    /** Declaration of `param` binding */
+    declaration?: Identifier;
+}
+
+/**
+ * Node types which may be used as function params or declared variables
+ */
+type PatternNode = Pattern | AssignmentPattern | RestElement;
+
+interface Scope {
+    parent: Scope | null;
+    declarations: Map<string, Identifier>;
+}
+
+interface ScopeState {
+    scope: Scope;
+    locals: Map<Identifier, Identifier>;
+}
+
+/**
+ * Names of implicit variables of `<e:for-each>` statement
+ */
+export const iteratorVariables = ['index', 'key', 'value'];
+
+/**
+ * Resolves local bindings of given JS AST: returns map of all identifiers,
+ * which refer to function parameters or variables, declared in function body,
+ * and their declarations. For declarations themselves, value is the same identifier
+ */
+export function resolveLocals(ast: Node): Map<Identifier, Identifier> {
+    const locals = new Map<Identifier, Identifier>();
+    const state: ScopeState = { scope: createScope(null), locals };
+
+    walkRecursive(ast, state, {
+        Function(node: FunctionDeclaration | ArrowFunctionExpression, st: ScopeState, c: AstWalkerContinuation<ScopeState>) {
+            const scope = createScope(st.scope);
+            const inner: ScopeState = { scope, locals: st.locals };
+
+            // Declare all params first so that default values may refer
+            // to previous params
+            if ('id' in node && node.id) {
+                declare(node.id as Identifier, inner);
+            }
+            node.params.forEach(param => patternIdentifiers(param).forEach(id => declare(id, inner)));
+            node.params.forEach(param => c(param, inner, 'Pattern'));
+            c(node.body, inner, 'expression' in node && node.expression ? 'Expression' : 'Statement');
+        },
+        BlockStatement(node: BlockStatement, st: ScopeState, c: AstWalkerContinuation<ScopeState>) {
+            const inner: ScopeState = { scope: createScope(st.scope), locals: st.locals };
+            declareStatements(node.body, inner);
+            node.body.forEach(stmt => c(stmt, inner, 'Statement'));
+        },
+        Program(node: Program, st: ScopeState, c: AstWalkerContinuation<ScopeState>) {
+            declareStatements(node.body, st);
+            node.body.forEach(stmt => c(stmt, st, 'Statement'));
+        },
+        Identifier: reference,
+        VariablePattern: reference
+    });
+
+    return locals;
+}
+
+/**
+ * Resolves bindings of all identifiers in given parsed expression
+ */
+export function resolveBindings(ast: Program): Map<Identifier, Binding> {
+    const locals = resolveLocals(ast);
+    const result = new Map<Identifier, Binding>();
+
+    walkRecursive(ast, null, {
+        Identifier(node: Identifier) {
+            result.set(node, getBinding(node, locals));
+        },
+        VariablePattern(node: Identifier) {
+            result.set(node, getBinding(node, locals));
+        }
+    });
+
+    return result;
+}
+
+/**
+ * Returns binding of given identifier
+ * @param locals Local bindings of expression, produced by `resolveLocals()`
+ */
+export function getBinding(id: Identifier, locals: Map<Identifier, Identifier>): Binding {
+    const { name } = id;
+
+    if (locals.has(id)) {
+        return { kind: 'param', name, declaration: locals.get(id) };
+    }
+
+    switch (id.context) {
+        case 'variable':
+            return { kind: 'variable', name };
+        case 'property':
+        case 'state':
+        case 'store':
+            return { kind: 'context', name };
+        case 'helper':
+            return { kind: 'helper', name };
+    }
+
+    return { kind: 'global', name };
+}
+
+/**
+ * Returns list of all identifiers declared by given function parameter pattern
+ */
+export function patternIdentifiers(node: Node, result: Identifier[] = []): Identifier[] {
+    const pattern = node as PatternNode;
+
+    switch (pattern.type) {
+        case 'Identifier':
+            result.push(pattern);
+            break;
+        case 'ObjectPattern':
+            pattern.properties.forEach(prop => patternIdentifiers(prop.type === 'RestElement' ? prop : prop.value, result));
+            break;
+        case 'ArrayPattern':
+            pattern.elements.forEach(elem => elem && patternIdentifiers(elem, result));
+            break;
+        case 'RestElement':
+            patternIdentifiers(pattern.argument, result);
+            break;
+        case 'AssignmentPattern':
+            patternIdentifiers(pattern.left, result);
+            break;
+    }
+
+    return result;
+}
+
+function createScope(parent: Scope | null): Scope {
+    return { parent, declarations: new Map() };
+}
+
+/**
+ * Declares variables of all `let`, `const` and `var` declarations of given
+ * block statements. All of them are block-scoped here: it’s enough for
+ * template expressions
+ */
+function declareStatements(body: Statement[], state: ScopeState): void {
+    body.forEach(stmt => {
+        if (stmt.type === 'VariableDeclaration') {
+            stmt.declarations.forEach(decl => patternIdentifiers(decl.id).forEach(id => declare(id, state)));
+        }
+    });
+}
+
+function declare(id: Identifier, state: ScopeState): void {
+    state.scope.declarations.set(id.name, id);
+    state.locals.set(id, id);
+}
+
+function reference(node: Identifier, state: ScopeState): void {
+    let scope = state.scope;
+    while (scope) {
+        if (scope.declarations.has(node.name)) {
+            state.locals.set(node, scope.declarations.get(node.name));
+            return;
+        }
+        scope = scope.parent;
+    }
+}
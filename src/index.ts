@@ -1,5 +1,33 @@
 import parse from './parse';
+export { ParserOptions, StatementMap, DirectiveMap, DirectiveValidator, WhitespaceMode } from './parse';
+export { default as Scanner } from './scanner';
+export { openTag, closeTag, closesTag, tagBody, tagText, emptyBody } from './tag';
+export {
+    InnerStatement, prefix, getAttr, getAttrValue, getDirective, expectAttribute, expectAttributeExpression,
+    expectAttributeLiteral, assertExpression, assertLiteral
+} from './elements/utils';
+export { default as reparse, TextEdit } from './reparse';
 export { parseJS } from './expression';
+export { resolveBindings, resolveLocals, getBinding, Binding, BindingKind } from './expression/scope';
+export {
+    default as analyzeVariables, getScopeChain, getVisibleVariables, VariablesAnalysis, VariableScope,
+    VariableDeclaration, VariableReference, VariableKind
+} from './analysis/variables';
+export {
+    default as analyzeDependencies, getDependencies, pathPrefixes, ExpressionDependencies, DependencyContext
+} from './analysis/dependencies';
+export { default as analyzeMutations, getMutations, Mutation, EventMutations, MutationsAnalysis } from './analysis/mutations';
+export { default as getManifest, TemplateManifest, ManifestImport } from './analysis/manifest';
+export { default as validateImports, reservedElements } from './analysis/imports';
+export { default as validatePartials, collectPartials } from './analysis/partials';
+export { default as print, PrintOptions } from './printer';
+export { default as format, FormatOptions } from './printer/format';
+export { default as createEditor, applyEdits, Editor, EditorResult } from './editor';
+export { SourceMap } from './editor/source-map';
 export * from './walk';
+export {
+    default as traverse, NodePath, TraverseVisitor, TraverseVisitorHooks, TraverseVisitors, visitorKeys, getVisitorKeys
+} from './traverse';
 export * from './ast';
+export * from './syntax-error';
 export default parse;
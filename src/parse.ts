@@ -1,5 +1,5 @@
 import Scanner from './scanner';
-import { Program, ENDProgram, ENDStatement, ParsedTag, ENDIfStatement } from './ast';
+import { Program, ENDProgram, ENDStatement, ParsedTag, ENDIfStatement, ENDCommentStatement, ENDDirective } from './ast';
 import { openTag, tagText } from './tag';
 import templateStatement from './elements/template';
 import ifStatement from './elements/if';
@@ -14,19 +14,87 @@ import importStatement from './elements/import';
 import stylesheetStatement from './elements/stylesheet';
 import scriptStatement from './elements/script';
 import {
-    prefix, ignored, getControlName, InnerStatement, assertExpression,
+    prefix, ignored, comment, getControlName, InnerStatement, assertExpression,
     getAttrValueIfLiteral
 } from './elements/utils';
 
+/**
+ * How whitespace-only text in element contents is handled:
+ * * `condense`: remove formatting whitespace, e.g. text with new lines between tags;
+ * * `preserve`: keep all whitespace as is;
+ * * `strip`: remove all whitespace-only text.
+ */
+export type WhitespaceMode = 'condense' | 'preserve' | 'strip';
+
 export interface ParserOptions {
     helpers?: string[];
     disableGetters?: boolean;
+
+    /**
+     * Do not stop at syntax errors: try to recover from them and collect
+     * them into `diagnostics` of parsed program instead
+     */
+    recover?: boolean;
+
+    /**
+     * Keep HTML comments, CDATA sections and processing instructions in parsed
+     * AST as `ENDComment`, `ENDCData` and `ENDProcessingInstruction` nodes
+     */
+    includeComments?: boolean;
+
+    /**
+     * Whitespace handling mode, default is `condense`. Contents of `<pre>`
+     * and `<textarea>` elements are always preserved, mode can also be
+     * overridden for element and its contents with `e:whitespace` directive
+     */
+    whitespace?: WhitespaceMode;
+
+    /**
+     * Custom control statements, e.g. `<e:repeat>`, where key is a statement
+     * name without prefix. Custom statements take precedence over built-in ones
+     */
+    statements?: StatementMap;
+
+    /**
+     * Custom directive prefixes, e.g. `bind` for `bind:value={expr}` attributes.
+     * Value is an optional validator of parsed directive
+     */
+    directives?: DirectiveMap;
+
+    /**
+     * Namespace prefix of Endorphin control statements and directives,
+     * default is `e`
+     */
+    namespace?: string;
+
+    /**
+     * Resolves component name from `href` of imported component, if it’s not
+     * explicitly defined with `as` attribute. If returns empty value, name
+     * is detected from file or directory name of `href`
+     */
+    resolveImportName?: (href: string, tag: ParsedTag) => string;
+
+    /**
+     * Global names which are used in expressions as is, e.g. not resolved as
+     * component properties. Names with `true` value are added to default
+     * ECMAScript globals, names with `false` value are removed
+     */
+    globals?: { [name: string]: boolean };
 }
 
-interface StatementMap {
+export interface StatementMap {
     [name: string]: InnerStatement;
 }
 
+/**
+ * Validates given parsed directive, should throw error if directive is invalid
+ */
+export type DirectiveValidator = (directive: ENDDirective, scanner: Scanner) => void;
+
+export interface DirectiveMap {
+    [prefix: string]: DirectiveValidator | null;
+}
+
 const statements: StatementMap = {
     'attribute': attributeStatement,
     'add-class': addClassStatement,
@@ -53,47 +121,81 @@ export default function parse(code: string, url?: string, options?: ParserOption
         start: 0,
         end: code.length
     };
-    let entry: ParsedTag;
 
     while (!scanner.eof()) {
-        if (entry = openTag(scanner)) {
-            const name = getName(entry);
+        const start = scanner.pos;
+        try {
+            topLevelStatement(scanner, program);
+        } catch (err) {
+            // In recovery mode, statement with unexpected error is dropped:
+            // continue parsing from next tag after error location
+            scanner.report(err);
+            skipToTag(scanner, Math.max(start, err.start != null ? err.start : start) + 1);
+        }
+    }
 
-            if (getControlName(name)) {
-                throw scanner.error(`Unexpected control statement <${name}>`, entry);
-            }
+    if (scanner.recover || scanner.diagnostics.length) {
+        program.diagnostics = scanner.diagnostics;
+    }
 
-            if (name === 'template') {
-                program.body.push(templateStatement(scanner, entry, statement));
-            } else if (name === 'style' || (name === 'link' && getAttrValueIfLiteral(entry, 'rel') === 'stylesheet')) {
-                const stylesheet = stylesheetStatement(scanner, entry);
-                if (stylesheet) {
-                    program.stylesheets.push(stylesheet);
-                }
-            } else if (name === 'link' && getAttrValueIfLiteral(entry, 'rel') === 'import') {
-                program.body.push(importStatement(scanner, entry));
-            } else if (name === 'script') {
-                const script = scriptStatement(scanner, entry);
-                if (script) {
-                    program.scripts.push(script);
-                }
-            } else {
-                program.body.push(elementStatement(scanner, entry, statement));
+    return program;
+}
+
+/**
+ * Consumes top-level statement from current scanner location into given program
+ */
+function topLevelStatement(scanner: Scanner, program: ENDProgram): void {
+    let entry: ParsedTag;
+    let note: ENDCommentStatement;
+
+    if (entry = openTag(scanner)) {
+        const name = getName(entry);
+        const rel = name === 'link' ? getAttrValueIfLiteral(scanner, entry, 'rel') : null;
+
+        if (getControlName(name, scanner.namespace)) {
+            scanner.report(scanner.error('END_UNEXPECTED_CONTROL_STATEMENT', `Unexpected control statement <${name}>`, entry, {
+                tag: name
+            }));
+            program.body.push(statement(scanner, entry));
+        } else if (name === 'template') {
+            program.body.push(templateStatement(scanner, entry, statement));
+        } else if (name === 'style' || rel === 'stylesheet') {
+            const stylesheet = stylesheetStatement(scanner, entry);
+            if (stylesheet) {
+                program.stylesheets.push(stylesheet);
             }
-        } else if (!ignored(scanner, true)) {
-            throw scanner.error('Unexpected token');
+        } else if (rel === 'import') {
+            program.body.push(importStatement(scanner, entry));
+        } else if (name === 'script') {
+            const script = scriptStatement(scanner, entry);
+            if (script) {
+                program.scripts.push(script);
+            }
+        } else {
+            program.body.push(elementStatement(scanner, entry, statement));
         }
+    } else if (note = comment(scanner)) {
+        program.body.push(note);
+    } else if (!ignored(scanner, true)) {
+        scanner.report(scanner.error('END_UNEXPECTED_TOKEN', 'Unexpected token'));
+        skipToTag(scanner, scanner.pos + 1);
     }
+}
 
-    return program;
+/**
+ * Moves scanner to the start of next tag from `pos`, or to the end of input
+ */
+function skipToTag(scanner: Scanner, pos: number): void {
+    const next = scanner.str.indexOf('<', pos);
+    scanner.pos = next === -1 ? scanner.str.length : next;
 }
 
 /**
  * Consumes tag statement for given open tag from current scanner state
  */
-function statement(scanner: Scanner, open: ParsedTag): ENDStatement {
+export function statement(scanner: Scanner, open: ParsedTag): ENDStatement {
     const name = getName(open);
-    const controlName = getControlName(name);
+    const controlName = getControlName(name, scanner.namespace);
     let result: ENDStatement;
     const parents: ENDIfStatement[] = [];
 
@@ -112,8 +214,10 @@ function statement(scanner: Scanner, open: ParsedTag): ENDStatement {
         }
     }
 
-    if (controlName && controlName in statements) {
-        result = statements[controlName](scanner, open, statement);
+    const handler = controlName && getStatement(scanner, controlName);
+
+    if (handler) {
+        result = handler(scanner, open, statement);
     } else if (name === 'script' || name === 'style') {
         result = tagText(scanner, open);
     } else {
@@ -131,6 +235,18 @@ function statement(scanner: Scanner, open: ParsedTag): ENDStatement {
     return result;
 }
 
+/**
+ * Returns consumer of control statement with given name
+ */
+function getStatement(scanner: Scanner, name: string): InnerStatement {
+    const custom = scanner.options && scanner.options.statements;
+    if (custom && custom.hasOwnProperty(name)) {
+        return custom[name];
+    }
+
+    return statements.hasOwnProperty(name) ? statements[name] : null;
+}
+
 function getName(tag: ParsedTag): string {
     return tag.name.name;
 }
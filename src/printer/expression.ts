@@ -0,0 +1,394 @@
+import {
+    Node, Program, Identifier, Literal, ENDGetter, ENDCaller, ENDFilter, ENDGetterPrefix,
+    IdentifierContext, CallExpression, ArgumentListElement, Property, TemplateLiteral, NodeType, NodeTypeMap,
+    BinaryExpression, LogicalExpression, Function as FunctionNode, ENDGetterPathFragment
+} from '../ast';
+
+type NodePrinter<N extends Node = Node> = (node: N) => string;
+
+type NodePrinterMap = {
+    [K in NodeType]?: NodePrinter<NodeTypeMap[K]>;
+};
+
+const contextPrefix: { [context in IdentifierContext]?: string } = {
+    variable: '@',
+    state: '#',
+    store: '$'
+};
+
+const binaryPrecedence = {
+    '??': 3,
+    '||': 3,
+    '&&': 4,
+    '|': 5,
+    '^': 6,
+    '&': 7,
+    '==': 8, '!=': 8, '===': 8, '!==': 8,
+    '<': 9, '>': 9, '<=': 9, '>=': 9, 'in': 9, 'instanceof': 9,
+    '<<': 10, '>>': 10, '>>>': 10,
+    '+': 11, '-': 11,
+    '*': 12, '/': 12, '%': 12,
+    '**': 13
+};
+
+const PREC_SEQUENCE = 0;
+const PREC_ASSIGNMENT = 1;
+const PREC_CONDITIONAL = 2;
+const PREC_UNARY = 14;
+const PREC_UPDATE = 15;
+const PREC_MEMBER = 17;
+const PREC_PRIMARY = 18;
+
+const printers: NodePrinterMap = {
+    Program(node: Program) {
+        return node.body.map(print).join('; ');
+    },
+    ExpressionStatement(node) {
+        return expr(node.expression);
+    },
+    EmptyStatement() {
+        return '';
+    },
+    ReturnStatement(node) {
+        return node.argument ? `return ${expr(node.argument)};` : 'return;';
+    },
+    BlockStatement(node) {
+        return `{ ${node.body.map(print).join(' ')} }`;
+    },
+    VariableDeclaration(node) {
+        return `${node.kind} ${node.declarations.map(print).join(', ')};`;
+    },
+    VariableDeclarator(node) {
+        return node.init ? `${print(node.id)} = ${expr(node.init, PREC_ASSIGNMENT)}` : print(node.id);
+    },
+    Identifier(node: Identifier) {
+        if (node.raw) {
+            return node.raw;
+        }
+
+        return (contextPrefix[node.context] || '') + node.name;
+    },
+    Literal(node: Literal) {
+        if (node.raw != null) {
+            return node.raw;
+        }
+
+        if (node.regex) {
+            return `/${node.regex.pattern}/${node.regex.flags}`;
+        }
+
+        return typeof node.value === 'string' ? quote(node.value) : String(node.value);
+    },
+    ThisExpression() {
+        return 'this';
+    },
+    ArrayExpression(node) {
+        return printArray(node.elements);
+    },
+    ArrayPattern(node) {
+        return printArray(node.elements);
+    },
+    ObjectExpression(node) {
+        return printObject(node.properties);
+    },
+    ObjectPattern(node) {
+        return printObject(node.properties);
+    },
+    Property(node: Property) {
+        const key = node.computed ? `[${expr(node.key)}]` : print(node.key);
+
+        if (node.shorthand) {
+            return print(node.value);
+        }
+
+        if (node.method || node.kind !== 'init') {
+            const fn = node.value as Node as FunctionNode;
+            const prefix = node.kind !== 'init' ? `${node.kind} ` : '';
+            return `${prefix}${key}(${fn.params.map(print).join(', ')}) ${print(fn.body)}`;
+        }
+
+        return `${key}: ${expr(node.value, PREC_ASSIGNMENT)}`;
+    },
+    ArrowFunctionExpression(node) {
+        const params = node.params.length === 1 && node.params[0].type === 'Identifier'
+            ? print(node.params[0])
+            : `(${node.params.map(print).join(', ')})`;
+        const body = node.body.type === 'ObjectExpression'
+            ? `(${print(node.body)})`
+            : (node.expression ? expr(node.body, PREC_ASSIGNMENT) : print(node.body));
+
+        return `${node.async ? 'async ' : ''}${params} => ${body}`;
+    },
+    AssignmentExpression(node) {
+        return `${expr(node.left, PREC_UPDATE)} ${node.operator} ${expr(node.right, PREC_ASSIGNMENT)}`;
+    },
+    AssignmentPattern(node) {
+        return `${print(node.left)} = ${expr(node.right, PREC_ASSIGNMENT)}`;
+    },
+    BinaryExpression(node) {
+        return printBinary(node);
+    },
+    LogicalExpression(node) {
+        if (isMixedLogical(node.left, node.operator) || isMixedLogical(node.right, node.operator)) {
+            // `??` can’t be mixed with `||` and `&&` without parentheses
+            const prec = binaryPrecedence[node.operator];
+            const wrap = (child: Node, min: number) => isMixedLogical(child, node.operator) ? `(${print(child)})` : expr(child, min);
+            return `${wrap(node.left, prec)} ${node.operator} ${wrap(node.right, prec + 1)}`;
+        }
+
+        return printBinary(node);
+    },
+    ChainExpression(node) {
+        return print(node.expression);
+    },
+    ConditionalExpression(node) {
+        return `${expr(node.test, PREC_CONDITIONAL + 1)} ? ${expr(node.consequent, PREC_ASSIGNMENT)} : ${expr(node.alternate, PREC_ASSIGNMENT)}`;
+    },
+    RegExpLiteral(node) {
+        return `/${node.regex.pattern}/${node.regex.flags}`;
+    },
+    SequenceExpression(node) {
+        return node.expressions.map((item: Node) => expr(item, PREC_ASSIGNMENT)).join(', ');
+    },
+    UnaryExpression(node) {
+        const arg = expr(node.argument, PREC_UNARY);
+        // Keep space between word operators and between same signs, e.g. `- -a`
+        const space = /^[a-z]/.test(node.operator) || /^[+-]$/.test(node.operator) && arg[0] === node.operator;
+        return space ? `${node.operator} ${arg}` : `${node.operator}${arg}`;
+    },
+    UpdateExpression(node) {
+        const arg = expr(node.argument, PREC_UPDATE);
+        return node.prefix ? `${node.operator}${arg}` : `${arg}${node.operator}`;
+    },
+    SpreadElement(node) {
+        return `...${expr(node.argument, PREC_ASSIGNMENT)}`;
+    },
+    RestElement(node) {
+        return `...${print(node.argument)}`;
+    },
+    MemberExpression(node) {
+        const object = expr(node.object, PREC_MEMBER);
+        const optional = node.optional ? '?.' : '';
+        return node.computed
+            ? `${object}${optional}[${expr(node.property)}]`
+            : `${object}${optional || '.'}${print(node.property)}`;
+    },
+    CallExpression(node: CallExpression) {
+        let args = node.arguments;
+        const { callee } = node;
+
+        if (callee.type === 'Identifier' && callee.context === 'helper' && isInjectedThis(args[0])) {
+            // Remove component reference added to helper call
+            args = args.slice(1);
+        }
+
+        if (node.pipe) {
+            return printPipe(args, expr(callee, PREC_MEMBER));
+        }
+
+        return `${expr(callee, PREC_MEMBER)}${node.optional ? '?.' : ''}(${printArguments(args)})`;
+    },
+    NewExpression(node) {
+        return `new ${expr(node.callee, PREC_MEMBER)}(${printArguments(node.arguments)})`;
+    },
+    TemplateLiteral(node: TemplateLiteral) {
+        let result = '';
+        node.quasis.forEach((quasi, i) => {
+            result += quasi.value.raw;
+            if (i < node.expressions.length) {
+                result += '${' + expr(node.expressions[i]) + '}';
+            }
+        });
+
+        return '`' + result + '`';
+    },
+    TaggedTemplateExpression(node) {
+        return expr(node.tag, PREC_MEMBER) + print(node.quasi);
+    },
+    ENDGetter(node: ENDGetter) {
+        return node.path.reduce((result, fragment, i) => {
+            return i ? result + printAccessor(fragment) : expr(fragment, PREC_MEMBER);
+        }, '');
+    },
+    ENDCaller(node: ENDCaller) {
+        const { object, property } = node;
+        const args = `${node.optional ? '?.' : ''}(${printArguments(node.arguments)})`;
+
+        if (object.type === 'ENDGetterPrefix' && property.type === 'Literal') {
+            // Call of top-level function, e.g. `foo()` or `#foo()`
+            const name = (contextPrefix[(object as ENDGetterPrefix).context] || '') + property.value;
+            return node.pipe ? printPipe(node.arguments, name) : name + args;
+        }
+
+        const method = expr(object, PREC_MEMBER) + printAccessor(property);
+        return node.pipe ? printPipe(node.arguments, method) : method + args;
+    },
+    ENDFilter(node: ENDFilter) {
+        const filter = print(node.expression);
+        return `${expr(node.object, PREC_MEMBER)}[${node.multiple ? `[${filter}]` : filter}]`;
+    },
+    ENDGetterPrefix(node: ENDGetterPrefix) {
+        return contextPrefix[node.context] || '';
+    }
+};
+
+/**
+ * Prints given JavaScript node of Endorphin expression as source code.
+ * Restores Endorphin-specific identifier prefixes and original expressions
+ * from upgraded getters, callers and filters
+ */
+export default function print(node: Node): string {
+    if (!printers.hasOwnProperty(node.type)) {
+        throw new Error(`Unable to print node of type "${node.type}"`);
+    }
+
+    return (printers[node.type as NodeType] as NodePrinter)(node);
+}
+
+/**
+ * Prints given expression node and wraps it with parentheses if its precedence
+ * is lower than `minPrecedence`
+ */
+function expr(node: Node, minPrecedence: number = PREC_SEQUENCE): string {
+    const result = print(node);
+    return precedence(node) < minPrecedence ? `(${result})` : result;
+}
+
+function precedence(node: Node): number {
+    switch (node.type) {
+        case 'SequenceExpression':
+            return PREC_SEQUENCE;
+        case 'ArrowFunctionExpression':
+        case 'AssignmentExpression':
+            return PREC_ASSIGNMENT;
+        case 'ConditionalExpression':
+            return PREC_CONDITIONAL;
+        case 'BinaryExpression':
+        case 'LogicalExpression':
+            return binaryPrecedence[(node as BinaryExpression | LogicalExpression).operator];
+        case 'UnaryExpression':
+            return PREC_UNARY;
+        case 'UpdateExpression':
+            return PREC_UPDATE;
+        case 'Literal':
+            // Numbers like `1.toString()` require parentheses
+            return typeof (node as Literal).value === 'number' ? PREC_MEMBER - 1 : PREC_PRIMARY;
+        case 'ChainExpression':
+            // Optional chain used as object or callee, like `(a?.b).c`,
+            // requires parentheses to keep short-circuiting semantics
+            return PREC_MEMBER - 1;
+        case 'CallExpression':
+        case 'ENDCaller':
+            return (node as CallExpression | ENDCaller).pipe ? binaryPrecedence['|'] : PREC_MEMBER;
+        case 'NewExpression':
+        case 'MemberExpression':
+        case 'TaggedTemplateExpression':
+        case 'ENDGetter':
+        case 'ENDFilter':
+            return PREC_MEMBER;
+    }
+
+    return PREC_PRIMARY;
+}
+
+function printBinary(node: BinaryExpression | LogicalExpression): string {
+    const prec = binaryPrecedence[node.operator];
+    const rightAssoc = node.operator === '**';
+    // Unary operand of exponentiation must be wrapped: `(-a) ** 2`
+    const left = rightAssoc && node.left.type === 'UnaryExpression'
+        ? `(${print(node.left)})`
+        : expr(node.left, rightAssoc ? prec + 1 : prec);
+    // Function reference or call as right operand of bitwise OR must be wrapped,
+    // otherwise it will be parsed as pipe: `a | (b)`
+    const right = node.operator === '|' && isPipeTarget(node.right)
+        ? `(${print(node.right)})`
+        : expr(node.right, rightAssoc ? prec : prec + 1);
+    return `${left} ${node.operator} ${right}`;
+}
+
+function printArray(elements: Array<Node | null>): string {
+    return `[${elements.map(elem => elem ? expr(elem, PREC_ASSIGNMENT) : '').join(', ')}]`;
+}
+
+function printObject(properties: Node[]): string {
+    return properties.length
+        ? `{ ${properties.map(print).join(', ')} }`
+        : '{}';
+}
+
+/**
+ * Prints property accessor of getter path fragment
+ */
+function printAccessor(node: ENDGetterPathFragment | ENDGetterPrefix): string {
+    const optional = node.type !== 'ENDGetterPrefix' && node.optional ? '?.' : '';
+
+    if (isPropertyName(node)) {
+        return `${optional || '.'}${node.value}`;
+    }
+
+    return `${optional}[${expr(node)}]`;
+}
+
+function printArguments(args: ArgumentListElement[]): string {
+    return args.map(arg => expr(arg, PREC_ASSIGNMENT)).join(', ');
+}
+
+/**
+ * Prints call, created from pipe operator, back as pipe: first argument is a
+ * piped value
+ */
+function printPipe(args: ArgumentListElement[], name: string): string {
+    const value = expr(args[0], binaryPrecedence['|']);
+    const rest = args.slice(1);
+    return `${value} | ${name}${rest.length ? `(${printArguments(rest)})` : ''}`;
+}
+
+/**
+ * Check if given node, used as right operand of `|`, will be parsed as pipe target
+ */
+function isPipeTarget(node: Node): boolean {
+    switch (node.type) {
+        case 'Identifier':
+        case 'MemberExpression':
+        case 'ENDGetter':
+        case 'ENDFilter':
+            return true;
+        case 'CallExpression':
+        case 'ENDCaller':
+            return !(node as CallExpression | ENDCaller).optional;
+    }
+
+    return false;
+}
+
+/**
+ * Check if given node is a literal produced from non-computed property access
+ */
+function isPropertyName(node: Node): node is Literal {
+    return node.type === 'Literal' && (node as Literal).raw == null
+        && typeof (node as Literal).value === 'string'
+        && /^[a-zA-Z_$][\w$]*$/.test((node as Literal).value as string);
+}
+
+/**
+ * Check if given node is a logical expression which can’t be mixed with
+ * `operator` without parentheses
+ */
+function isMixedLogical(node: Node, operator: string): boolean {
+    if (node.type !== 'LogicalExpression') {
+        return false;
+    }
+
+    return (node as LogicalExpression).operator === '??' !== (operator === '??');
+}
+
+/**
+ * Check if given node is a `this` argument added by parser to helper call
+ */
+function isInjectedThis(node?: Node): boolean {
+    return node && node.type === 'ThisExpression' && node.start == null;
+}
+
+function quote(str: string): string {
+    return `'${str.replace(/\\/g, '\\\\').replace(/'/g, '\\\'').replace(/\n/g, '\\n')}'`;
+}
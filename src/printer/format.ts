@@ -0,0 +1,105 @@
+import parse, { ParserOptions, WhitespaceMode } from '../parse';
+import print, { PrintOptions, PrintTag, getTag, getProgramItems, printOpenTag, printTag } from './index';
+import { Node, ENDElement } from '../ast';
+import { whitespaceMode } from '../tag';
+
+export interface FormatOptions extends ParserOptions {
+    /** Maximum line width before long tags are wrapped */
+    printWidth?: number;
+
+    /** Indentation: a string or number of spaces */
+    indent?: string | number;
+}
+
+interface FormatContext {
+    printWidth: number;
+    indent: string;
+    print: PrintOptions;
+}
+
+/**
+ * Formats given Endorphin template source: re-indents nested elements and
+ * control statements, wraps long attribute lists, normalizes quoting of
+ * literal attributes and expressions. Comments are kept, elements with text
+ * content are printed inline to keep significant whitespace intact
+ */
+export default function format(code: string, options: FormatOptions = {}): string {
+    const { printWidth = 80, indent = 4, ...parserOptions } = options;
+    const ctx: FormatContext = {
+        printWidth,
+        indent: typeof indent === 'number' ? ' '.repeat(indent) : indent,
+        print: { quote: '"', namespace: parserOptions.namespace }
+    };
+
+    const ast = parse(code, null, { includeComments: true, ...parserOptions });
+    const whitespace = parserOptions.whitespace || 'condense';
+    return getProgramItems(ast).map(item => formatNode(item, 0, ctx, whitespace)).join('\n') + '\n';
+}
+
+/**
+ * Formats given node
+ * @param whitespace Whitespace mode of node’s parent
+ */
+function formatNode(node: Node, level: number, ctx: FormatContext, whitespace: WhitespaceMode): string {
+    const indent = ctx.indent.repeat(level);
+    const tag = getTag(node, ctx.print);
+
+    if (typeof tag === 'string') {
+        return indent + tag;
+    }
+
+    if (node.type === 'ENDElement') {
+        whitespace = whitespaceMode(node as ENDElement, whitespace);
+    }
+
+    if (tag.text != null || !tag.body || !tag.body.length || hasContent(tag) || whitespace === 'preserve') {
+        // Tag with raw text or inline content: keep content as is
+        const content = tag.body
+            ? tag.body.map(child => print(child, ctx.print)).join('')
+            : tag.text;
+        const output = printTag(tag, content, ctx.print);
+        const openTag = printOpenTag(tag);
+
+        if (fits(indent + openTag, ctx) || !tag.attributes.length) {
+            return indent + output;
+        }
+
+        // Wrap attributes, keep content as is
+        return output.startsWith(openTag)
+            ? wrapOpenTag(tag, level, ctx, false) + output.slice(openTag.length)
+            : wrapOpenTag(tag, level, ctx, true);
+    }
+
+    const open = printOpenTag(tag);
+    const lines = [
+        fits(indent + open, ctx) || !tag.attributes.length ? indent + open : wrapOpenTag(tag, level, ctx, false),
+        ...tag.body.map(child => formatNode(child, level + 1, ctx, whitespace)),
+        `${indent}</${tag.name}>`
+    ];
+
+    return lines.join('\n');
+}
+
+/**
+ * Prints open tag with each attribute on its own line
+ */
+function wrapOpenTag(tag: PrintTag, level: number, ctx: FormatContext, selfClosing: boolean): string {
+    const indent = ctx.indent.repeat(level);
+    const attrIndent = indent + ctx.indent;
+    const attrs = tag.attributes.map(attr => `\n${attrIndent}${attr}`).join('');
+    return `${indent}<${tag.name}${attrs}\n${indent}${selfClosing ? '/>' : '>'}`;
+}
+
+/**
+ * Check if given tag contains text content, which whitespace is significant
+ */
+function hasContent(tag: PrintTag): boolean {
+    return tag.body.some(child => child.type === 'Literal'
+        || child.type === 'Program'
+        || child.type === 'ENDInnerHTML'
+        || child.type === 'ENDCData');
+}
+
+function fits(line: string, ctx: FormatContext): boolean {
+    return !line.includes('\n') && line.length <= ctx.printWidth;
+}
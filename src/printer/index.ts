@@ -0,0 +1,378 @@
+import printJS from './expression';
+import {
+    Node, ENDProgram, ENDStatement, ENDAttribute, ENDDirective, ENDAttributeValue, Literal,
+    ENDElement, ENDVariable, ParsedTag, ENDImport,
+    ENDStylesheet, ENDScript, ENDAttributeValueExpression, ENDComment, ENDCData, ENDProcessingInstruction, ENDInnerHTML,
+    ENDTemplate, ENDPartial, ENDChooseCase, ENDCommentStatement
+} from '../ast';
+import { prefix, isIfDirective } from '../elements/utils';
+import { getImportName } from '../elements/import';
+import { isQuote, isLiteral } from '../utils';
+
+export interface PrintOptions {
+    /**
+     * Quote for literal attribute values. If specified, all string and unquoted
+     * values are printed with this quote, otherwise original quoting is preserved
+     */
+    quote?: '"' | '\'';
+
+    /** Print tags without content as self-closing. Default is `true` */
+    selfClosing?: boolean;
+
+    /** Namespace prefix of Endorphin control statements and directives */
+    namespace?: string;
+}
+
+/**
+ * Tag representation of printed node
+ */
+export interface PrintTag {
+    name: string;
+    attributes: string[];
+
+    /** Nested nodes of tag */
+    body?: Node[];
+
+    /** Raw text content of tag, e.g. contents of `<style>` or `<script>` */
+    text?: string;
+}
+
+const defaultMIME = {
+    ENDStylesheet: 'text/css',
+    ENDScript: 'text/javascript'
+};
+
+/**
+ * Prints given Endorphin AST or its subtree as template source
+ */
+export default function print(node: Node, options: PrintOptions = {}): string {
+    if (node.type === 'ENDProgram') {
+        return getProgramItems(node as ENDProgram).map(item => print(item, options)).join('\n');
+    }
+
+    const tag = getTag(node, options);
+    if (typeof tag === 'string') {
+        return tag;
+    }
+
+    const content = tag.body
+        ? tag.body.map(child => print(child, options)).join('')
+        : tag.text;
+
+    return printTag(tag, content, options);
+}
+
+/**
+ * Returns list of all top-level nodes of given program in source order
+ */
+export function getProgramItems(ast: ENDProgram): Node[] {
+    const items: Node[] = [...ast.body, ...ast.stylesheets, ...ast.scripts];
+    return items.every(item => item.start != null)
+        ? items.sort((a, b) => a.start - b.start)
+        : items;
+}
+
+/**
+ * Prints given tag with `content` as inner text
+ */
+export function printTag(tag: PrintTag, content: string | null, options: PrintOptions = {}): string {
+    const open = printOpenTag(tag);
+
+    if (!content && tag.text == null && options.selfClosing !== false) {
+        return `${open.slice(0, -1)} />`;
+    }
+
+    return `${open}${content || ''}</${tag.name}>`;
+}
+
+/**
+ * Prints opening tag of given tag representation
+ */
+export function printOpenTag(tag: PrintTag): string {
+    const attrs = tag.attributes.map(attr => ` ${attr}`).join('');
+    return `<${tag.name}${attrs}>`;
+}
+
+/**
+ * Returns tag representation of given node or its string output, if node
+ * is not a tag
+ */
+export function getTag(node: Node, options: PrintOptions = {}): PrintTag | string {
+    switch (node.type) {
+        case 'Literal':
+            return textValue(node as Literal);
+        case 'Program':
+            return `{${printJS(node)}}`;
+        case 'ENDInnerHTML':
+            return `{{${printJS((node as ENDInnerHTML).value)}}}`;
+        case 'ENDComment':
+            return `<!--${(node as ENDComment).value}-->`;
+        case 'ENDCData':
+            return `<![CDATA[${(node as ENDCData).value}]]>`;
+        case 'ENDProcessingInstruction':
+            return `<?${(node as ENDProcessingInstruction).value}?>`;
+        case 'ENDAttribute':
+        case 'ENDDirective':
+            return printAttribute(node as ENDAttribute | ENDDirective, options);
+        case 'ENDVariable':
+            return printVariable(node as ENDVariable, options);
+        case 'ENDAttributeValueExpression':
+            return printAttributeValue(node as ENDAttributeValueExpression, options);
+        case 'ParsedTag':
+            return printParsedTag(node as ParsedTag, options);
+    }
+
+    const tag = getStatementTag(node, options);
+    if (!tag) {
+        // Not a template node, print as JS
+        return printJS(node);
+    }
+
+    return tag;
+}
+
+/**
+ * Prints given attribute or directive
+ */
+export function printAttribute(attr: ENDAttribute | ENDDirective, options: PrintOptions = {}): string {
+    let name: string;
+    if (attr.type === 'ENDDirective') {
+        name = `${attr.prefix === prefix ? options.namespace || prefix : attr.prefix}:${attr.name}`;
+    } else {
+        name = attr.name.type === 'Program' ? `{${printJS(attr.name)}}` : attr.name.name;
+    }
+
+    return attr.value ? `${name}=${printAttributeValue(attr.value, options)}` : name;
+}
+
+/**
+ * Prints value of attribute
+ */
+export function printAttributeValue(value: ENDAttributeValue, options: PrintOptions = {}): string {
+    if (!value) {
+        return '';
+    }
+
+    if (value.type === 'Literal') {
+        return printLiteralValue(value, options);
+    }
+
+    if (value.type === 'Program') {
+        return `{${printJS(value)}}`;
+    }
+
+    // Interpolated value: `"foo {bar}"`
+    const text = value.elements.map(item => isLiteral(item) ? textValue(item) : '').join('');
+    const quote = getQuote(text, options.quote || '"');
+    const inner = value.elements.map(item => isLiteral(item) ? textValue(item) : `{${printJS(item)}}`).join('');
+    return quote + inner + quote;
+}
+
+function printLiteralValue(node: Literal, options: PrintOptions): string {
+    const { value, raw } = node;
+
+    const quoted = raw != null && isQuote(raw.charCodeAt(0))
+        // Literal may come from expression, e.g. `{"foo"}`: make sure it
+        // will be parsed as the same value
+        && !/[{\\]/.test(raw);
+
+    if (typeof value === 'string' && options.quote) {
+        // Re-quote source text to keep character references
+        return quoteValue(quoted ? raw.slice(1, -1) : value, options.quote);
+    }
+
+    if (options.quote && raw != null && !quoted && !raw.includes('{')) {
+        // Unquoted non-string literal, like `data-n=5`
+        return quoteValue(raw, options.quote);
+    }
+
+    if (quoted || (raw != null && /^[^\s"'<>\/=`{]+$/.test(raw))) {
+        return raw;
+    }
+
+    return typeof value === 'string'
+        ? quoteValue(value, '"')
+        : `{${printJS(node)}}`;
+}
+
+/**
+ * Returns source text of given text literal
+ */
+function textValue(node: Literal): string {
+    return node.raw != null ? node.raw : String(node.value);
+}
+
+function quoteValue(value: string, quote: '"' | '\''): string {
+    if (value.includes('{')) {
+        // Value will be parsed as interpolated expression
+        return `{${printJS({ type: 'Literal', value } as Literal)}}`;
+    }
+
+    const q = getQuote(value, quote);
+    if (value.includes(q)) {
+        return `{${printJS({ type: 'Literal', value } as Literal)}}`;
+    }
+
+    return q + value + q;
+}
+
+/**
+ * Returns quote that can be used for given attribute value
+ */
+function getQuote(value: string, quote: '"' | '\''): '"' | '\'' {
+    const alt = quote === '"' ? '\'' : '"';
+    return value.includes(quote) && !value.includes(alt) ? alt : quote;
+}
+
+function printVariable(node: ENDVariable, options: PrintOptions): string {
+    return node.value ? `${node.name}=${printAttributeValue(node.value, options)}` : node.name;
+}
+
+function printParsedTag(tag: ParsedTag, options: PrintOptions): string {
+    const name = tag.name.name;
+    if (tag.tagType === 'close') {
+        return `</${name}>`;
+    }
+
+    const output = printOpenTag({ name, attributes: getAttributes(tag, options) });
+    return tag.selfClosing ? `${output.slice(0, -1)} />` : output;
+}
+
+/**
+ * Node types which are printed as tags
+ */
+type StatementNode = ENDStatement | ENDTemplate | ENDPartial | ENDChooseCase | ENDImport | ENDStylesheet | ENDScript;
+
+/**
+ * Returns tag representation of given template statement
+ */
+function getStatementTag(node: Node, options: PrintOptions): PrintTag {
+    const n = node as StatementNode;
+
+    switch (n.type) {
+        case 'ENDTemplate':
+            return { name: 'template', attributes: [], body: n.body };
+
+        case 'ENDPartial':
+            return {
+                name: 'template',
+                attributes: [`partial:${n.id}`, ...n.params.map(param => printAttribute(param, options))],
+                body: n.body
+            };
+
+        case 'ENDElement':
+            return { name: n.name.name, attributes: getAttributes(n, options), body: n.body };
+
+        case 'ENDIfStatement':
+            if (isIfDirective(n)) {
+                // Statement was created from `e:if` directive of element,
+                // which is still available in element
+                return getStatementTag(n.consequent[0], options);
+            }
+
+            return control('if', options, [`test=${printAttributeValue(n.test, options)}`], n.consequent);
+
+        case 'ENDChooseStatement':
+            return control('choose', options, [], withComments(n.cases, n.comments));
+
+        case 'ENDChooseCase':
+            return n.test
+                ? control('when', options, [`test=${printAttributeValue(n.test, options)}`], n.consequent)
+                : control('otherwise', options, [], n.consequent);
+
+        case 'ENDForEachStatement':
+            const attrs = [`select=${printAttributeValue(n.select, options)}`];
+            if (n.key) {
+                attrs.push(`key=${printAttributeValue(n.key, options)}`);
+            }
+            return control('for-each', options, attrs, n.body);
+
+        case 'ENDPartialStatement':
+            return {
+                name: `partial:${n.id}`,
+                attributes: n.params.map(param => printAttribute(param, options)),
+                body: []
+            };
+
+        case 'ENDVariableStatement':
+            return control('variable', options, n.variables.map(v => printVariable(v, options)), []);
+
+        case 'ENDAttributeStatement':
+            return control('attribute', options, [
+                ...n.attributes.map(attr => printAttribute(attr, options)),
+                ...n.directives.map(dir => printAttribute(dir, options))
+            ], []);
+
+        case 'ENDAddClassStatement':
+            return control('add-class', options, [], withComments(n.tokens, n.comments));
+
+        case 'ENDImport':
+            return getImportTag(n);
+
+        case 'ENDStylesheet':
+        case 'ENDScript':
+            return getResourceTag(n);
+    }
+}
+
+function control(name: string, options: PrintOptions, attributes: string[], body: Node[]): PrintTag {
+    return { name: `${options.namespace || prefix}:${name}`, attributes, body };
+}
+
+/**
+ * Returns given statement contents with comments, placed by their source location
+ */
+function withComments(body: Node[], comments?: ENDCommentStatement[]): Node[] {
+    return comments
+        ? [...body, ...comments].sort((a, b) => a.start - b.start)
+        : body;
+}
+
+/**
+ * Returns printed attributes of given element, including directives and ref
+ */
+function getAttributes(elem: ENDElement | ParsedTag, options: PrintOptions): string[] {
+    const result = elem.attributes.map(attr => printAttribute(attr, options));
+
+    if (elem.ref != null) {
+        result.push(typeof elem.ref === 'string'
+            ? `ref=${quoteValue(elem.ref, options.quote || '"')}`
+            : `ref={${printJS(elem.ref)}}`);
+    }
+
+    return result.concat(elem.directives.map(dir => printAttribute(dir, options)));
+}
+
+function getImportTag(node: ENDImport): PrintTag {
+    const attributes = ['rel="import"', `href="${node.href}"`];
+    if (node.explicit || getImportName(node.href) !== node.name) {
+        attributes.push(`as="${node.name}"`);
+    }
+
+    return { name: 'link', attributes };
+}
+
+function getResourceTag(node: ENDStylesheet | ENDScript): PrintTag {
+    const attributes: string[] = [];
+    const isStyle = node.type === 'ENDStylesheet';
+
+    if (node.content == null && isStyle) {
+        attributes.push('rel="stylesheet"', `href="${node.url}"`);
+    } else if (node.content == null) {
+        attributes.push(`src="${node.url}"`);
+    }
+
+    if (node.mime !== defaultMIME[node.type]) {
+        attributes.push(`type="${node.mime}"`);
+    }
+
+    if (node.content == null && isStyle) {
+        return { name: 'link', attributes };
+    }
+
+    return {
+        name: isStyle ? 'style' : 'script',
+        attributes,
+        text: node.content || ''
+    };
+}
@@ -0,0 +1,316 @@
+import Scanner from './scanner';
+import parse, { ParserOptions, statement } from './parse';
+import { openTag, whitespaceMode } from './tag';
+import templateStatement from './elements/template';
+import elementStatement from './elements/element';
+import { prefix } from './elements/utils';
+import { TAG_START, isNode } from './utils';
+import { ENDProgram, ENDStatement, ENDProgramStatement, Node, Position, ParsedTag, ENDDiagnostic } from './ast';
+
+export interface TextEdit {
+    /** Start offset of replaced fragment in previous source */
+    start: number;
+
+    /** End offset of replaced fragment in previous source */
+    end: number;
+
+    /** Replacement text */
+    text: string;
+}
+
+interface EditRange {
+    start: number;
+    end: number;
+    delta: number;
+}
+
+interface ReparseTarget {
+    node: ENDProgramStatement;
+    container: ENDProgramStatement[];
+    index: number;
+    topLevel: boolean;
+}
+
+interface NodeOffsets {
+    node: Node;
+    start: number;
+    end: number;
+}
+
+/**
+ * Updates given AST, previously parsed with `parse()`, with text `edits`.
+ * Only the innermost element or control statement that contains all edits
+ * is parsed again, all other nodes are reused and their locations are shifted.
+ * If AST can’t be safely updated, template is parsed from scratch.
+ * NB: previous AST is updated in-place
+ * @param ast Previously parsed template
+ * @param code Template source with all `edits` applied
+ * @param edits List of text edits, in previous source coordinates
+ */
+export default function reparse(ast: ENDProgram, code: string, edits: TextEdit[], options?: ParserOptions): ENDProgram {
+    const range = getEditRange(edits);
+
+    if (!range || code.length !== ast.end + range.delta || hasErrors(ast.diagnostics)) {
+        return parse(code, ast.filename, options);
+    }
+
+    const target = findTarget(ast.body, range, code, true);
+    if (!target) {
+        return parse(code, ast.filename, options);
+    }
+
+    const { node } = target;
+    const scanner = new Scanner(code, ast.filename, options);
+    let result: ENDProgramStatement;
+    scanner.pos = getStart(node);
+
+    try {
+        const open = openTag(scanner);
+        result = open && reparseStatement(scanner, open, target);
+    } catch (err) {
+        // Unable to parse updated fragment, let full parser report error
+        return parse(code, ast.filename, options);
+    }
+
+    if (!result || scanner.pos !== getEnd(node) + range.delta || hasErrors(scanner.diagnostics)) {
+        return parse(code, ast.filename, options);
+    }
+
+    updateDiagnostics(ast, node, range, scanner);
+    shiftLocations(ast, node, range, scanner);
+    target.container[target.index] = result;
+    ast.end = code.length;
+    return ast;
+}
+
+/**
+ * Check if given diagnostics list contains errors. Warnings do not prevent
+ * incremental update
+ */
+function hasErrors(diagnostics?: ENDDiagnostic[]): boolean {
+    return diagnostics ? diagnostics.some(item => item.severity === 'error') : false;
+}
+
+/**
+ * Replaces warnings of `node`, which will be replaced, with warnings of parsed
+ * fragment and shifts locations of warnings after edited range
+ */
+function updateDiagnostics(ast: ENDProgram, node: ENDProgramStatement, range: EditRange, scanner: Scanner): void {
+    const start = getStart(node);
+    const end = getEnd(node);
+    const diagnostics = (ast.diagnostics || [])
+        .filter(item => item.start < start || item.end > end)
+        .map(item => {
+            if (item.start < range.end) {
+                return item;
+            }
+
+            const next = { ...item, start: item.start + range.delta, end: item.end + range.delta };
+            next.loc = {
+                ...item.loc,
+                start: scanner.sourceLocation(next.start),
+                end: scanner.sourceLocation(next.end)
+            };
+            return next;
+        })
+        .concat(scanner.diagnostics)
+        .sort((a, b) => a.start - b.start);
+
+    if (diagnostics.length || scanner.recover) {
+        ast.diagnostics = diagnostics;
+    } else {
+        delete ast.diagnostics;
+    }
+}
+
+/**
+ * Returns edited range of previous source, e.g. the smallest range that
+ * contains all given edits
+ */
+function getEditRange(edits: TextEdit[]): EditRange {
+    if (!edits.length) {
+        return null;
+    }
+
+    const range: EditRange = { start: edits[0].start, end: edits[0].end, delta: 0 };
+    edits.forEach(edit => {
+        range.start = Math.min(range.start, edit.start);
+        range.end = Math.max(range.end, edit.end);
+        range.delta += edit.text.length - (edit.end - edit.start);
+    });
+
+    return range;
+}
+
+/**
+ * Finds the innermost statement in given container which can be parsed again
+ * for given edit range
+ */
+function findTarget(container: ENDProgramStatement[], range: EditRange, code: string, topLevel = false): ReparseTarget {
+    for (let i = 0; i < container.length; i++) {
+        const node = container[i];
+        const start = getStart(node);
+        const end = getEnd(node);
+
+        if (start != null && start < range.start && range.end < end) {
+            // Element with `e:if` directive is parsed with its wrapping statements,
+            // so look into element contents only
+            const inner = unwrapDirective(node);
+            let target: ReparseTarget;
+
+            // Contents of element with own whitespace mode depend on it,
+            // so it should be parsed as a whole
+            if (inner.type !== 'ENDElement' || !whitespaceMode(inner, null)) {
+                getChildContainers(inner).some(child => !!(target = findTarget(child, range, code)));
+            }
+
+            if (!target && canReparse(node, topLevel) && code.charCodeAt(start) === TAG_START) {
+                target = { node, container, index: i, topLevel };
+            }
+
+            return target;
+        }
+    }
+}
+
+/**
+ * Parses statement from given open tag
+ */
+function reparseStatement(scanner: Scanner, open: ParsedTag, target: ReparseTarget): ENDProgramStatement {
+    if (!target.topLevel) {
+        return statement(scanner, open);
+    }
+
+    return target.node.type === 'ENDElement'
+        ? elementStatement(scanner, open, statement)
+        : templateStatement(scanner, open, statement);
+}
+
+/**
+ * Check if given node can be parsed again as standalone statement
+ */
+function canReparse(node: ENDProgramStatement, topLevel: boolean): boolean {
+    if (topLevel) {
+        return node.type === 'ENDTemplate' || node.type === 'ENDPartial' || node.type === 'ENDElement';
+    }
+
+    return node.type === 'ENDElement' || node.type === 'ENDIfStatement'
+        || node.type === 'ENDChooseStatement' || node.type === 'ENDForEachStatement';
+}
+
+/**
+ * Returns list of statement containers of given node
+ */
+function getChildContainers(node: ENDProgramStatement): ENDStatement[][] {
+    switch (node.type) {
+        case 'ENDTemplate':
+        case 'ENDPartial':
+        case 'ENDElement':
+        case 'ENDForEachStatement':
+            return [node.body];
+        case 'ENDIfStatement':
+            return [node.consequent];
+        case 'ENDChooseStatement':
+            return node.cases.map(item => item.consequent);
+    }
+
+    return [];
+}
+
+/**
+ * Returns statement wrapped by `ENDIfStatement` statements, produced from
+ * `e:if` directives, or given node itself
+ */
+function unwrapDirective(node: ENDProgramStatement): ENDProgramStatement {
+    const tests: Node[] = [];
+    let inner = node;
+
+    while (inner.type === 'ENDIfStatement' && inner.consequent.length === 1) {
+        tests.push(inner.test);
+        inner = inner.consequent[0];
+    }
+
+    if (tests.length && inner.type === 'ENDElement') {
+        const { directives } = inner;
+        if (tests.every(test => directives.some(dir => dir.prefix === prefix && dir.name === 'if' && dir.value === test))) {
+            return inner;
+        }
+    }
+
+    return node;
+}
+
+/**
+ * Returns start offset of given statement in source code. Statements produced
+ * by `e:if` directive are located at the statement they wrap
+ */
+function getStart(node: ENDProgramStatement): number {
+    if (node.start == null && node.type === 'ENDIfStatement' && node.consequent.length) {
+        return getStart(node.consequent[0]);
+    }
+
+    return node.start;
+}
+
+function getEnd(node: ENDProgramStatement): number {
+    if (node.end == null && node.type === 'ENDIfStatement' && node.consequent.length) {
+        return getEnd(node.consequent[0]);
+    }
+
+    return node.end;
+}
+
+/**
+ * Shifts locations of all nodes in `ast` located after edited range, except
+ * `exclude` subtree, which will be replaced
+ */
+function shiftLocations(ast: ENDProgram, exclude: Node, range: EditRange, scanner: Scanner): void {
+    // Collect offsets first: location objects might be shared between nodes
+    // so we should read all original values before any updates
+    const offsets: NodeOffsets[] = [];
+    collectNodes(ast, exclude, new Set(), offsets);
+
+    const updatePos = (pos: Position, offset: number) => {
+        if (offset >= range.end) {
+            const next = scanner.sourceLocation(offset + range.delta);
+            pos.line = next.line;
+            pos.column = next.column;
+            if (typeof pos.offset === 'number') {
+                pos.offset = next.offset;
+            }
+        }
+    };
+
+    offsets.forEach(({ node, start, end }) => {
+        if (node.loc) {
+            updatePos(node.loc.start, start);
+            updatePos(node.loc.end, end);
+        }
+
+        if (node.start != null && node.start >= range.end) {
+            node.start += range.delta;
+        }
+
+        if (node.end != null && node.end >= range.end) {
+            node.end += range.delta;
+        }
+    });
+}
+
+function collectNodes(value: Node | Node[] | unknown, exclude: Node, visited: Set<object>, result: NodeOffsets[]): void {
+    if ((Array.isArray(value) || isNode(value)) && value !== exclude && !visited.has(value)) {
+        visited.add(value);
+
+        if (Array.isArray(value)) {
+            value.forEach(item => collectNodes(item, exclude, visited, result));
+        } else {
+            result.push({
+                node: value,
+                start: value.start != null ? value.start : value.loc && value.loc.start.offset,
+                end: value.end != null ? value.end : value.loc && value.loc.end.offset
+            });
+
+            Object.keys(value).forEach(key => key !== 'loc' && collectNodes(value[key], exclude, visited, result));
+        }
+    }
+}
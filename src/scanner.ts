@@ -1,6 +1,7 @@
-import { ENDSyntaxError } from './syntax-error';
-import { Node, SourceLocation, Position } from './ast';
-import { ParserOptions } from './parse';
+import { ENDSyntaxError, ENDErrorCode, ENDErrorData } from './syntax-error';
+import { Node, SourceLocation, Position, ENDDiagnostic, ParsedTag } from './ast';
+import { ParserOptions, WhitespaceMode } from './parse';
+import { prefix } from './elements/utils';
 
 const LF = 10;
 const CR = 13;
@@ -29,6 +30,15 @@ export default class Scanner {
     /** Cache of lines locations in scanned content */
     lines?: number[];
 
+    /** Errors collected in recovery mode */
+    diagnostics: ENDDiagnostic[];
+
+    /** Whitespace handling mode of currently parsed element contents */
+    whitespace: WhitespaceMode;
+
+    /** Stack of currently open tags, the innermost tag is the last one */
+    openTags: ParsedTag[];
+
     /**
      * @param str A string to consume
      * @param url Location of consumed content (e.g. url, file path etc.)
@@ -39,6 +49,9 @@ export default class Scanner {
         this.pos = this.start = 0;
         this.end = str.length;
         this.lines = null;
+        this.diagnostics = [];
+        this.whitespace = options && options.whitespace || 'condense';
+        this.openTags = [];
     }
 
     /**
@@ -58,6 +71,9 @@ export default class Scanner {
         clone.start = clone.pos = start;
         clone.end = end;
         clone.lines = this.lines;
+        clone.diagnostics = this.diagnostics;
+        clone.whitespace = this.whitespace;
+        clone.openTags = this.openTags;
         return clone;
     }
 
@@ -185,24 +201,77 @@ export default class Scanner {
     }
 
     /**
-     * Creates error object with current stream state
+     * Creates error object with current stream state. If `pos` is a node,
+     * error will point to its full range
+     */
+    error(code: ENDErrorCode, message: string, pos: Node | Position | number = this.pos, data?: ENDErrorData): ENDSyntaxError {
+        let start: Position;
+        let end: Position;
+
+        if (typeof pos === 'number') {
+            start = end = this.sourceLocation(pos);
+        } else if ('type' in pos) {
+            if (pos.start != null) {
+                start = this.sourceLocation(pos.start);
+                end = this.sourceLocation(pos.end);
+            } else {
+                start = pos.loc.start;
+                end = pos.loc.end;
+            }
+        } else {
+            start = end = pos;
+        }
+
+        return new ENDSyntaxError(message, this.url, start, this.str, { code, end, data });
+    }
+
+    /**
+     * Reports given error. In recovery mode, syntax errors are stored as
+     * diagnostics and parsing continues, otherwise error is thrown
      */
-    error(message: string, pos: Node | Position | number = this.pos): ENDSyntaxError {
-        if (typeof pos === 'object' && 'loc' in pos) {
-            pos = pos.loc.start;
-        } else if (typeof pos === 'number') {
-            pos = this.sourceLocation(pos);
+    report(err: Error): void {
+        if (this.recover && err instanceof ENDSyntaxError) {
+            this.diagnostics.push(err.toDiagnostic());
+        } else {
+            throw err;
         }
-        return new ENDSyntaxError(message, this.url, pos as Position, this.str);
     }
 
-    expect<T extends Node>(consumer: (scanner: Scanner) => T, error: string): T;
-    expect(charCode: number, error: string): boolean;
+    /**
+     * Adds warning for given source range to parser diagnostics. Unlike errors,
+     * warnings never stop parsing
+     */
+    warn(code: ENDErrorCode, message: string, start: number = this.pos, end: number = start, data?: ENDErrorData): void {
+        const err = new ENDSyntaxError(message, this.url, this.sourceLocation(start), this.str, {
+            code,
+            end: this.sourceLocation(end),
+            data
+        });
+
+        this.diagnostics.push({ ...err.toDiagnostic(), severity: 'warning' });
+    }
+
+    /**
+     * Namespace prefix of Endorphin elements and directives
+     */
+    get namespace(): string {
+        return this.options && this.options.namespace || prefix;
+    }
+
+    /**
+     * Check if parser should recover from syntax errors
+     */
+    get recover(): boolean {
+        return this.options ? !!this.options.recover : false;
+    }
+
+    expect<T extends Node>(consumer: (scanner: Scanner) => T, error: string, code?: ENDErrorCode): T;
+    expect(charCode: number, error: string, code?: ENDErrorCode): boolean;
 
     /**
      * Consumes node with given `consumer` and if it fails, throws error with `error` message
      */
-    expect(arg: any, error: string): any {
+    expect(arg: any, error: string, code: ENDErrorCode = 'END_UNEXPECTED_TOKEN'): any {
         if (typeof arg === 'number') {
             if (this.eat(arg)) {
                 return true;
@@ -214,7 +283,7 @@ export default class Scanner {
             }
         }
 
-        throw this.error(error);
+        throw this.error(code, error);
     }
 }
 
@@ -1,14 +1,78 @@
-import { Position } from 'acorn';
-import { Node } from './ast';
+import { Node, Position, SourceLocation, ENDDiagnostic } from './ast';
+
+/**
+ * Machine-readable codes of parser errors
+ */
+export type ENDErrorCode = 'END_UNEXPECTED_TOKEN'
+    | 'END_UNEXPECTED_CHARACTER'
+    | 'END_UNEXPECTED_CONTROL_STATEMENT'
+    | 'END_UNCLOSED_TAG'
+    | 'END_UNEXPECTED_CLOSE_TAG'
+    | 'END_EXPECTED_TAG_END'
+    | 'END_INVALID_ATTRIBUTE_NAME'
+    | 'END_MISSING_ATTRIBUTE_VALUE'
+    | 'END_MISSING_ATTRIBUTE'
+    | 'END_EXPECTED_EXPRESSION'
+    | 'END_EXPECTED_LITERAL'
+    | 'END_INVALID_SLOT_NAME'
+    | 'END_INVALID_REF'
+    | 'END_INVALID_EVENT_HANDLER'
+    | 'END_INVALID_WHITESPACE_MODE'
+    | 'END_INVALID_VARIABLE_NAME'
+    | 'END_INVALID_IMPORT_NAME'
+    | 'END_NON_EMPTY_TAG'
+    | 'END_INVALID_CONTENT'
+    | 'END_UNEXPECTED_CHOOSE_CASE'
+    | 'END_CASE_AFTER_OTHERWISE'
+    | 'END_UNCLOSED_SECTION'
+    | 'END_UNCLOSED_STRING'
+    | 'END_UNCLOSED_PAIR'
+    | 'END_UNCLOSED_INNER_HTML'
+    | 'END_JS_SYNTAX'
+    | 'END_UNKNOWN_ENTITY'
+    | 'END_MISSING_ENTITY_SEMICOLON'
+    | 'END_INVALID_CHARACTER_REFERENCE'
+    | 'END_UNDECLARED_VARIABLE'
+    | 'END_VARIABLE_BEFORE_DECLARATION'
+    | 'END_VARIABLE_OUT_OF_SCOPE'
+    | 'END_UNUSED_VARIABLE'
+    | 'END_PROP_MUTATION'
+    | 'END_UNKNOWN_COMPONENT'
+    | 'END_UNUSED_IMPORT'
+    | 'END_RESERVED_COMPONENT_NAME'
+    | 'END_UNKNOWN_PARTIAL'
+    | 'END_UNKNOWN_PARTIAL_PARAM'
+    | 'END_MISSING_PARTIAL_PARAM'
+    | 'END_DUPLICATE_PARTIAL';
+
+/**
+ * Additional error data, like expected tag name, which can be used by tools
+ * to provide quick fixes
+ */
+export interface ENDErrorData {
+    [key: string]: string | number | boolean;
+}
+
+export interface ENDSyntaxErrorDetails {
+    code?: ENDErrorCode;
+    /** End of invalid source fragment, same as error position if omitted */
+    end?: Position;
+    data?: ENDErrorData;
+}
 
 export class ENDSyntaxError extends SyntaxError {
+    readonly code: ENDErrorCode;
     readonly fileName: string | null;
     readonly lineNumber: number;
     readonly columnNumber: number;
+    readonly start?: number;
+    readonly end?: number;
+    readonly loc?: SourceLocation;
+    readonly data?: ENDErrorData;
     readonly rawMessage: string;
     readonly snippet?: string;
 
-    constructor(message: string, fileName?: string | null, pos?: Position, source?: string) {
+    constructor(message: string, fileName?: string | null, pos?: Position, source?: string, details: ENDSyntaxErrorDetails = {}) {
         const rawMessage = message;
 
         if (pos) {
@@ -26,16 +90,40 @@ export class ENDSyntaxError extends SyntaxError {
         }
 
         super(message);
+        this.code = details.code || 'END_UNEXPECTED_TOKEN';
         this.fileName = fileName;
         this.lineNumber = pos && pos.line;
         this.columnNumber = pos && pos.column;
         this.snippet = snippet;
         this.rawMessage = rawMessage;
+        this.data = details.data;
+
+        if (pos) {
+            const end = details.end || pos;
+            this.start = pos.offset;
+            this.end = end.offset;
+            this.loc = { start: pos, end, source: fileName };
+        }
+    }
+
+    /**
+     * Returns diagnostic record for current error
+     */
+    toDiagnostic(): ENDDiagnostic {
+        return {
+            code: this.code,
+            message: this.rawMessage,
+            severity: 'error',
+            data: this.data,
+            start: this.start,
+            end: this.end,
+            loc: this.loc
+        };
     }
 }
 
 export class ENDCompileError extends Error {
-    constructor(message: string, readonly node: Node) {
+    constructor(message: string, readonly node: Node, readonly code?: ENDErrorCode) {
         super(message);
     }
 }
@@ -2,19 +2,24 @@ import expression, { EXPRESSION_START } from './expression';
 import {
     Identifier, Literal, Program, LiteralValue, ENDAttribute,
     ENDAttributeValue, ParsedTag, ENDAttributeName, ENDAttributeValueExpression,
-    ENDBaseAttributeValue, ENDDirective, Node, ENDStatement
+    ENDBaseAttributeValue, ENDDirective, Node, ENDStatement, ENDElement
 } from './ast';
 import {
-    isWhiteSpace, isQuote, eatQuoted, isSpace, identifier, literal, isIdentifier,
+    isQuote, eatQuoted, isSpace, identifier, literal, isIdentifier,
     isLiteral, TAG_START, TAG_CLOSE, TAG_END, nameStartChar, nameChar, ATTR_DELIMITER
 } from './utils';
-import { prefix, ignored, InnerStatement, tagName } from './elements/utils';
+import { prefix, ignored, comment, InnerStatement, tagName } from './elements/utils';
 import Scanner from './scanner';
+import { WhitespaceMode } from './parse';
 import innerHTML from './elements/inner-html';
 import text from './text';
+import decode from './entities';
+import { getMutations, propMutation } from './analysis/mutations';
 
 const exprStart = String.fromCharCode(EXPRESSION_START);
-const directives = [prefix, 'on', 'ref', 'class', 'partial', 'animate'];
+const directives = ['on', 'ref', 'class', 'partial', 'animate'];
+const whitespaceModes: WhitespaceMode[] = ['condense', 'preserve', 'strip'];
+const preformatted = ['pre', 'textarea'];
 const attributeCast = {
     'true': true,
     'false': false,
@@ -41,35 +46,18 @@ export function openTag(scanner: Scanner): ParsedTag {
             const selfClosing = scanner.eat(TAG_CLOSE);
 
             if (!scanner.eat(TAG_END)) {
-                throw scanner.error('Expected tag closing brace');
+                scanner.report(scanner.error('END_EXPECTED_TAG_END', 'Expected tag closing brace'));
             }
 
             scanner.start = pos;
             const tag = createTag(scanner, name, 'open', selfClosing);
             attributes.forEach(attr => {
-                const ref = getRef(attr, scanner);
-                if (ref != null) {
-                    return tag.ref = ref;
+                try {
+                    addAttribute(scanner, tag, attr);
+                } catch (err) {
+                    // Skip invalid attribute in recovery mode
+                    scanner.report(err);
                 }
-
-                const directive = getDirective(attr);
-                if (directive) {
-                    validateDirective(directive, scanner);
-                    return tag.directives.push(directive);
-                }
-
-                // Validate some edge cases:
-                // * Currently, we do not support dynamic names in slots.
-                //   Make sure all slot names are literals
-                const attrName = isIdentifier(attr.name) ? attr.name.name : null;
-                const shouldValidateSlot = attrName === (name.name === 'slot' ? 'name' : 'slot');
-
-                if (shouldValidateSlot && attr.value && !isLiteral(attr.value)) {
-                    // tslint:disable-next-line:max-line-length
-                    throw scanner.error(`Slot name must be a string literal, expressions are not supported`, attr.value);
-                }
-
-                tag.attributes.push(attr);
             });
 
             return tag;
@@ -79,6 +67,37 @@ export function openTag(scanner: Scanner): ParsedTag {
     scanner.pos = pos;
 }
 
+/**
+ * Adds given parsed attribute into tag as ref, directive or regular attribute
+ */
+function addAttribute(scanner: Scanner, tag: ParsedTag, attr: ENDAttribute): void {
+    const ref = getRef(attr, scanner);
+    if (ref != null) {
+        tag.ref = ref;
+        return;
+    }
+
+    const directive = getDirective(attr, scanner);
+    if (directive) {
+        validateDirective(directive, scanner);
+        tag.directives.push(directive);
+        return;
+    }
+
+    // Validate some edge cases:
+    // * Currently, we do not support dynamic names in slots.
+    //   Make sure all slot names are literals
+    const attrName = isIdentifier(attr.name) ? attr.name.name : null;
+    const shouldValidateSlot = attrName === (tagName(tag) === 'slot' ? 'name' : 'slot');
+
+    if (shouldValidateSlot && attr.value && !isLiteral(attr.value)) {
+        // tslint:disable-next-line:max-line-length
+        throw scanner.error('END_INVALID_SLOT_NAME', `Slot name must be a string literal, expressions are not supported`, attr.value);
+    }
+
+    tag.attributes.push(attr);
+}
+
 /**
  * Consumes close tag from given stream
  */
@@ -88,13 +107,17 @@ export function closeTag(scanner: Scanner): ParsedTag {
         const name = ident(scanner);
         if (name) {
             if (!scanner.eat(TAG_END)) {
-                throw scanner.error('Expected tag closing brace');
+                scanner.report(scanner.error('END_EXPECTED_TAG_END', 'Expected tag closing brace'));
             }
 
             return createTag(scanner, name, 'close');
         }
 
-        throw scanner.error('Unexpected character');
+        // In recovery mode, invalid closing tag is skipped
+        scanner.report(scanner.error('END_UNEXPECTED_CHARACTER', 'Unexpected character'));
+        scanner.eatWhile(isTagContent);
+        scanner.eat(TAG_END);
+        return;
     }
 
     scanner.pos = pos;
@@ -126,7 +149,15 @@ function consumeAttributes(scanner: Scanner): ENDAttribute[] {
         if (attr = attribute(scanner)) {
             attributes.push(attr);
         } else if (!scanner.eof() && !isTerminator(scanner.peek())) {
-            throw scanner.error('Unexpected attribute name');
+            scanner.report(scanner.error('END_INVALID_ATTRIBUTE_NAME', 'Unexpected attribute name'));
+
+            if (scanner.peek() === TAG_START) {
+                // Most likely, unclosed tag: stop consuming attributes here
+                break;
+            }
+
+            // Skip invalid attribute name
+            scanner.eatWhile(isInvalidName);
         } else {
             break;
         }
@@ -139,13 +170,16 @@ function consumeAttributes(scanner: Scanner): ENDAttribute[] {
  * Consumes attribute from current stream location
  */
 function attribute(scanner: Scanner): ENDAttribute {
-    const name: ENDAttributeName = ident(scanner) || expression(scanner);
     const start = scanner.pos;
+    const name: ENDAttributeName = ident(scanner) || expression(scanner);
     if (name) {
         let value: ENDAttributeValue = null;
 
         if (scanner.eat(ATTR_DELIMITER)) {
-            value = scanner.expect(attributeValue, 'Expecting attribute value');
+            value = attributeValue(scanner) || null;
+            if (!value) {
+                scanner.report(scanner.error('END_MISSING_ATTRIBUTE_VALUE', 'Expecting attribute value'));
+            }
         }
 
         return {
@@ -169,8 +203,19 @@ function attributeValue(scanner: Scanner): ENDAttributeValue {
     }
 
     const start = scanner.pos;
+    let quoted: boolean;
+
+    try {
+        quoted = eatQuoted(scanner);
+    } catch (err) {
+        // In recovery mode, unclosed quoted value ends at tag boundary
+        scanner.report(err);
+        scanner.pos = start + 1;
+        scanner.eatWhile(isTagContent);
+        return literal(decode(scanner, start + 1, scanner.pos, true), scanner.substring(start, scanner.pos), scanner.loc(start));
+    }
 
-    if (eatQuoted(scanner)) {
+    if (quoted) {
         // Check if it’s interpolated value, e.g. "foo {bar}"
         const raw = scanner.current();
         if (raw.includes(exprStart)) {
@@ -185,13 +230,13 @@ function attributeValue(scanner: Scanner): ENDAttributeValue {
             };
         }
 
-        return literal(raw.slice(1, -1), raw, scanner.loc(start));
+        return literal(decode(scanner, start + 1, scanner.pos - 1, true), raw, scanner.loc(start));
     }
 
     if (scanner.eatWhile(isUnquoted)) {
         scanner.start = start;
         const value = scanner.current();
-        return literal(castAttributeValue(value), value, scanner.loc(start));
+        return literal(castAttributeValue(decode(scanner, start, scanner.pos, true)), value, scanner.loc(start));
     }
 }
 
@@ -209,7 +254,7 @@ function attributeValueExpression(scanner: Scanner): ENDAttributeValueExpression
         if (expr = expression(scanner)) {
             if (pos !== start) {
                 const txt = scanner.substring(start, pos);
-                elements.push(literal(txt, txt, scanner.loc(start)));
+                elements.push(literal(decode(scanner, start, pos, true), txt, scanner.loc(start)));
             }
             elements.push(expr);
             start = scanner.pos;
@@ -220,7 +265,7 @@ function attributeValueExpression(scanner: Scanner): ENDAttributeValueExpression
 
     if (start !== scanner.pos) {
         const txt = scanner.substring(start, scanner.pos);
-        elements.push(literal(txt, txt, scanner.loc(start)));
+        elements.push(literal(decode(scanner, start, scanner.pos, true), txt, scanner.loc(start)));
     }
 
     return {
@@ -237,11 +282,25 @@ function isTerminator(code: number): boolean {
     return code === TAG_END || code === TAG_CLOSE;
 }
 
+/**
+ * Check if given character code doesn’t start or end tag
+ */
+function isTagContent(code: number): boolean {
+    return code !== TAG_START && code !== TAG_END;
+}
+
+/**
+ * Check if given character code is a part of invalid attribute name
+ */
+function isInvalidName(code: number): boolean {
+    return !isSpace(code) && !isTerminator(code) && code !== TAG_START;
+}
+
 /**
  * Check if given character code is valid unquoted value
  */
 function isUnquoted(code: number): boolean {
-    return !isNaN(code) && !isQuote(code) && !isWhiteSpace(code)
+    return !isNaN(code) && !isQuote(code) && !isSpace(code)
         && !isTerminator(code) && code !== ATTR_DELIMITER && code !== EXPRESSION_START;
 }
 
@@ -259,16 +318,17 @@ function getRef(attr: ENDAttribute, scanner: Scanner): string | Program {
                 } else if (attr.value.type === 'Program') {
                     return attr.value;
                 } else {
-                    throw scanner.error(`Unexpected value type "${attr.value.type}": ref value must be a string or expression`, attr);
+                    // tslint:disable-next-line:max-line-length
+                    throw scanner.error('END_INVALID_REF', `Unexpected value type "${attr.value.type}": ref value must be a string or expression`, attr);
                 }
             }
 
-            throw scanner.error('Ref attribute should not be empty', attr);
+            throw scanner.error('END_INVALID_REF', 'Ref attribute should not be empty', attr);
         } else {
             const m = name.match(/^ref:(.+)$/);
             if (m) {
                 if (attr.value) {
-                    throw scanner.error('Shorthand ref should not have value', attr.value);
+                    throw scanner.error('END_INVALID_REF', 'Shorthand ref should not have value', attr.value);
                 }
 
                 return m[1];
@@ -281,12 +341,13 @@ function getRef(attr: ENDAttribute, scanner: Scanner): string | Program {
  * If given attribute is a directive (has one of known prefixes), converts it to
  * directive token, returns `null` otherwise
  */
-function getDirective(attr: ENDAttribute): ENDDirective {
+function getDirective(attr: ENDAttribute, scanner: Scanner): ENDDirective {
     if (isIdentifier(attr.name)) {
         const m = attr.name.name.match(/^([\w-]+):/);
 
-        if (m && directives.includes(m[1])) {
-            const pfx = m[1];
+        if (m && isDirectivePrefix(m[1], scanner)) {
+            // Directives of Endorphin namespace always use default prefix
+            const pfx = m[1] === scanner.namespace ? prefix : m[1];
             const { name, loc } = attr.name;
             const directiveId = identifier(name.slice(m[0].length), {
                 start: attr.name.start + m[0].length,
@@ -351,8 +412,49 @@ function createTag(scanner: Scanner,
 function validateDirective(dir: ENDDirective, scanner: Scanner): void {
     // Make sure event is expression
     if (dir.prefix === 'on' && dir.value && dir.value.type !== 'Program') {
-        throw scanner.error(`Event handler must be expression`, dir.value);
+        throw scanner.error('END_INVALID_EVENT_HANDLER', `Event handler must be expression`, dir.value);
+    }
+
+    // Component props are read-only
+    if (dir.prefix === 'on' && dir.value) {
+        getMutations(dir.value as Program)
+            .filter(mutation => mutation.context === 'property')
+            .forEach(mutation => {
+                const { message, data } = propMutation(mutation);
+                scanner.report(scanner.error('END_PROP_MUTATION', message, mutation.node, data));
+            });
+    }
+
+    if (dir.prefix === prefix && dir.name === 'whitespace'
+        && (!dir.value || !isLiteral(dir.value) || !whitespaceModes.includes(dir.value.value as WhitespaceMode))) {
+        throw scanner.error('END_INVALID_WHITESPACE_MODE', `Whitespace mode must be one of ${whitespaceModes.join(', ')}`, dir.value || dir);
+    }
+
+    const custom = scanner.options && scanner.options.directives;
+    if (custom && custom.hasOwnProperty(dir.prefix) && custom[dir.prefix]) {
+        custom[dir.prefix](dir, scanner);
+    }
+}
+
+/**
+ * Check if given attribute name prefix is a known directive prefix
+ */
+function isDirectivePrefix(pfx: string, scanner: Scanner): boolean {
+    const custom = scanner.options && scanner.options.directives;
+    return pfx === scanner.namespace || directives.includes(pfx) || (custom ? custom.hasOwnProperty(pfx) : false);
+}
+
+/**
+ * Returns whitespace mode for contents of given tag. If tag doesn’t override
+ * mode, returns `inherited` one
+ */
+export function whitespaceMode(tag: ParsedTag | ENDElement, inherited: WhitespaceMode): WhitespaceMode {
+    const dir = tag.directives.find(item => item.prefix === prefix && item.name === 'whitespace');
+    if (dir && isLiteral(dir.value)) {
+        return dir.value.value as WhitespaceMode;
     }
+
+    return preformatted.includes(tag.name.name) ? 'preserve' : inherited;
 }
 
 /**
@@ -366,12 +468,18 @@ export function tagBody(scanner: Scanner, open: ParsedTag, consumeTag?: InnerSta
 
     const tagStack: ParsedTag[] = [open];
     const items: ENDStatement[] = [];
+    const { whitespace, openTags } = scanner;
+    const depth = openTags.length;
     let tagEntry: ParsedTag;
     let token: ENDStatement;
 
+    scanner.whitespace = whitespaceMode(open, whitespace);
+    openTags.push(open);
+
     while (!scanner.eof()) {
         if (closesTag(scanner, tagStack[tagStack.length - 1])) {
             tagStack.pop();
+            openTags.pop();
             if (!tagStack.length) {
                 break;
             }
@@ -383,26 +491,31 @@ export function tagBody(scanner: Scanner, open: ParsedTag, consumeTag?: InnerSta
                 }
             } else {
                 tagStack.push(tagEntry);
+                openTags.push(tagEntry);
             }
-        } else if (token = innerHTML(scanner) || expression(scanner)) {
+        } else if (token = innerHTML(scanner) || expression(scanner) || comment(scanner)) {
             items.push(token);
         } else if (token = text(scanner)) {
-            // Skip formatting tokens: a whitespace-only text token with new lines
-            const value = String(token.value);
-            if (!/^\s+$/.test(value) || !/[\r\n]/.test(value)) {
+            if (!isFormatting(token, scanner.whitespace)) {
                 items.push(token);
             }
         } else if (!ignored(scanner)) {
-            throw scanner.error(`Unexpected token`);
+            scanner.report(scanner.error('END_UNEXPECTED_TOKEN', `Unexpected token`));
+            scanner.next();
         }
     }
 
-    // If we reached here then most likely we have unclosed tags
-    if (tagStack.length) {
-        throw scanner.error(`Expecting </${tagName(tagStack.pop())}>`);
+    // If we reached here then most likely we have unclosed tags.
+    // In recovery mode, assume they are closed at the end of input
+    while (tagStack.length) {
+        const unclosed = tagStack.pop();
+        const tag = tagName(unclosed);
+        scanner.report(scanner.error('END_UNCLOSED_TAG', `Expecting </${tag}>`, unclosed, { expected: tag }));
     }
+    openTags.length = depth;
 
-    finalizeTagBody(body, items);
+    finalizeTagBody(body, items, scanner.whitespace);
+    scanner.whitespace = whitespace;
     return body;
 }
 
@@ -432,7 +545,8 @@ export function tagText(scanner: Scanner, open: ParsedTag): Literal {
     }
 
     // If we reached here then most likely we have unclosed tags
-    throw scanner.error(`Expecting </${tagName(open)}>`);
+    scanner.report(scanner.error('END_UNCLOSED_TAG', `Expecting </${tagName(open)}>`, scanner.pos, { expected: tagName(open) }));
+    return literal(scanner.substring(start), null, scanner.loc(start));
 }
 
 /**
@@ -446,7 +560,22 @@ export function closesTag(scanner: Scanner, open: ParsedTag): boolean {
             return true;
         }
 
-        throw scanner.error(`Unexpected closing tag </${tagName(close)}>, expecting </${tagName(open)}>`, pos);
+        if (scanner.recover && scanner.openTags.some(tag => tagName(tag) === tagName(close))) {
+            // In recovery mode, closing tag of parent element closes all
+            // unclosed elements up to it
+            scanner.report(scanner.error('END_UNCLOSED_TAG', `Expecting </${tagName(open)}>`, open, { expected: tagName(open) }));
+            scanner.pos = pos;
+            return true;
+        }
+
+        // In recovery mode, unexpected closing tag is skipped
+        scanner.report(scanner.error('END_UNEXPECTED_CLOSE_TAG', `Unexpected closing tag </${tagName(close)}>, expecting </${tagName(open)}>`, pos, {
+            tag: tagName(close),
+            expected: tagName(open)
+        }));
+
+        // Check if skipped tag is followed by expected closing tag
+        return closesTag(scanner, open);
     }
 
     return false;
@@ -466,7 +595,10 @@ export function emptyBody(scanner: Scanner, open: ParsedTag): void {
 
     while (!scanner.eof() && !closesTag(scanner, open)) {
         if (!ignored(scanner)) {
-            throw scanner.error(`Unexpected token, tag <${tagName(open)}> must be empty`);
+            scanner.report(scanner.error('END_NON_EMPTY_TAG', `Unexpected token, tag <${tagName(open)}> must be empty`, scanner.pos, {
+                tag: tagName(open)
+            }));
+            scanner.next();
         }
     }
 }
@@ -474,8 +606,23 @@ export function emptyBody(scanner: Scanner, open: ParsedTag): void {
 /**
  * Finalizes parsed body content
  */
-function finalizeTagBody(parent: ENDStatement[], parsed: ENDStatement[]): void {
-    removeFormatting(parsed).forEach(item => parent.push(item));
+function finalizeTagBody(parent: ENDStatement[], parsed: ENDStatement[], mode: WhitespaceMode): void {
+    (mode === 'condense' ? removeFormatting(parsed) : parsed).forEach(item => parent.push(item));
+}
+
+/**
+ * Check if given text token is a formatting whitespace that should be skipped
+ * in given whitespace mode
+ */
+function isFormatting(token: Literal, mode: WhitespaceMode): boolean {
+    const value = String(token.value);
+
+    if (mode === 'preserve' || !/^\s+$/.test(value)) {
+        return false;
+    }
+
+    // In `condense` mode, skip whitespace-only text with new lines
+    return mode === 'strip' || /[\r\n]/.test(value);
 }
 
 /**
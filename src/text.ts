@@ -2,9 +2,11 @@ import Scanner from './scanner';
 import { Literal } from './ast';
 import { EXPRESSION_START } from './expression';
 import { TAG_START, TAG_CLOSE, nameStartChar } from './utils';
+import decode from './entities';
 
 /**
- * Consumes text token from given stream
+ * Consumes text token from given stream. Character references are decoded
+ * in token value, original text is available in `raw` in this case
  */
 export default function text(scanner: Scanner): Literal {
     const start = scanner.pos;
@@ -14,11 +16,19 @@ export default function text(scanner: Scanner): Literal {
 
     if (start !== scanner.pos) {
         scanner.start = start;
-        return {
+        const raw = scanner.current();
+        const value = decode(scanner, start, scanner.pos);
+        const token: Literal = {
             type: 'Literal',
-            value: scanner.current(),
+            value,
             ...scanner.loc()
         };
+
+        if (value !== raw) {
+            token.raw = raw;
+        }
+
+        return token;
     }
 }
 
@@ -0,0 +1,250 @@
+import { Node, NodeType, NodeTypeMap } from './ast';
+
+export interface NodePath<N extends Node = Node> {
+    node: N;
+
+    /** Parent node, `null` for root node */
+    parent: Node | null;
+    parentPath: NodePath | null;
+
+    /** Name of parent property which holds node */
+    key: string | null;
+
+    /** List of parent nodes which contains node, e.g. `ENDElement.body` */
+    container: Node[] | null;
+
+    /** Index of node in container */
+    index: number | null;
+
+    /** Node was removed from tree */
+    removed: boolean;
+
+    /** Children of node should not be traversed */
+    skipped: boolean;
+
+    /** Replaces current node with given one. Children of new node will be traversed */
+    replaceWith: (node: Node) => void;
+
+    /** Removes current node from tree */
+    remove: () => void;
+
+    /** Inserts given nodes before current one. Inserted nodes are not traversed */
+    insertBefore: (...nodes: Node[]) => void;
+
+    /** Inserts given nodes after current one. Inserted nodes will be traversed */
+    insertAfter: (...nodes: Node[]) => void;
+
+    /** Do not traverse children of current node */
+    skip: () => void;
+}
+
+export type TraverseVisitor<T, N extends Node = Node> = (path: NodePath<N>, state: T) => void;
+
+export interface TraverseVisitorHooks<T, N extends Node = Node> {
+    enter?: TraverseVisitor<T, N>;
+    exit?: TraverseVisitor<T, N>;
+}
+
+/**
+ * Visitors of node types: either a function which is called when traversal
+ * enters node or an object with `enter` and `exit` hooks
+ */
+export type TraverseVisitors<T> = {
+    [K in NodeType]?: TraverseVisitor<T, NodeTypeOf<K>> | TraverseVisitorHooks<T, NodeTypeOf<K>>;
+} & {
+    [nodeType: string]: TraverseVisitor<T, any> | TraverseVisitorHooks<T, any>;
+};
+
+type NodeTypeOf<K extends NodeType> = NodeTypeMap[K];
+
+/**
+ * Names of node properties with child nodes, in traversal order
+ */
+export const visitorKeys: { [K in NodeType]: string[] } = {
+    Program: ['body'],
+    Literal: [],
+    Identifier: [],
+    ThisExpression: [],
+    FunctionDeclaration: ['id', 'params', 'body'],
+    ArrowFunctionExpression: ['params', 'body'],
+    AssignmentPattern: ['left', 'right'],
+    ObjectPattern: ['properties'],
+    ArrayPattern: ['elements'],
+    SpreadElement: ['argument'],
+    RestElement: ['argument'],
+    ArrayExpression: ['elements'],
+    ObjectExpression: ['properties'],
+    Property: ['key', 'value'],
+    AssignmentExpression: ['left', 'right'],
+    BinaryExpression: ['left', 'right'],
+    LogicalExpression: ['left', 'right'],
+    CallExpression: ['callee', 'arguments'],
+    NewExpression: ['callee', 'arguments'],
+    MemberExpression: ['object', 'property'],
+    ConditionalExpression: ['test', 'consequent', 'alternate'],
+    RegExpLiteral: [],
+    SequenceExpression: ['expressions'],
+    UnaryExpression: ['argument'],
+    UpdateExpression: ['argument'],
+    ExpressionStatement: ['expression'],
+    EmptyStatement: [],
+    ReturnStatement: ['argument'],
+    BlockStatement: ['body'],
+    VariableDeclaration: ['declarations'],
+    VariableDeclarator: ['id', 'init'],
+    TemplateLiteral: ['quasis', 'expressions'],
+    TaggedTemplateExpression: ['tag', 'quasi'],
+    TemplateElement: [],
+    ChainExpression: ['expression'],
+
+    ENDGetterPrefix: [],
+    ENDGetter: ['path'],
+    ENDCaller: ['object', 'property', 'arguments'],
+    ENDFilter: ['object', 'expression'],
+    ENDProgram: ['body', 'stylesheets', 'scripts'],
+    ENDTemplate: ['body'],
+    ENDPartial: ['params', 'body'],
+    ENDElement: ['name', 'attributes', 'ref', 'directives', 'body'],
+    ENDAttribute: ['name', 'value'],
+    ENDDirective: ['value'],
+    ENDAttributeValueExpression: ['elements'],
+    ENDVariable: ['value'],
+    ENDIfStatement: ['test', 'consequent'],
+    ENDChooseStatement: ['cases', 'comments'],
+    ENDChooseCase: ['test', 'consequent'],
+    ENDForEachStatement: ['select', 'key', 'body'],
+    ENDPartialStatement: ['params'],
+    ENDVariableStatement: ['variables'],
+    ENDAttributeStatement: ['attributes', 'directives'],
+    ENDAddClassStatement: ['tokens', 'comments'],
+    ENDInnerHTML: ['value'],
+    ENDComment: [],
+    ENDCData: [],
+    ENDProcessingInstruction: [],
+    ENDImport: [],
+    ENDStylesheet: [],
+    ENDScript: [],
+    ParsedTag: ['name', 'attributes', 'ref', 'directives']
+};
+
+/**
+ * Traverses given AST and invokes visitors for nodes with `NodePath` argument,
+ * which can be used to modify tree during traversal
+ */
+export default function traverse<T>(ast: Node, visitors: TraverseVisitors<T>, state?: T): void {
+    visitPath(createPath(ast, null, null, null, null), visitors, state);
+}
+
+/**
+ * Returns names of properties with child nodes of given node. For unknown
+ * node types, e.g. nodes of custom statements, all properties with nodes
+ * are used
+ */
+export function getVisitorKeys(node: Node): string[] {
+    if (visitorKeys.hasOwnProperty(node.type)) {
+        return visitorKeys[node.type];
+    }
+
+    return Object.keys(node).filter(key => key !== 'loc' && isChild(node[key]));
+}
+
+function visitPath<T>(path: NodePath, visitors: TraverseVisitors<T>, state: T): void {
+    const visitor = visitors[path.node.type];
+    const enter = typeof visitor === 'function' ? visitor : visitor && visitor.enter;
+    const exit = typeof visitor === 'function' ? null : visitor && visitor.exit;
+
+    if (enter) {
+        enter(path, state);
+    }
+
+    if (path.removed || path.skipped) {
+        return;
+    }
+
+    const { node } = path;
+    getVisitorKeys(node).forEach(key => {
+        const value = node[key];
+        if (Array.isArray(value)) {
+            for (let i = 0; i < value.length; i++) {
+                if (value[i]) {
+                    const child = createPath(value[i], path, key, value, i);
+                    visitPath(child, visitors, state);
+                    // Container may be modified during traversal
+                    i = child.removed ? child.index - 1 : child.index;
+                }
+            }
+        } else if (value && typeof value === 'object' && typeof value.type === 'string') {
+            visitPath(createPath(value, path, key, null, null), visitors, state);
+        }
+    });
+
+    if (exit && !path.removed) {
+        exit(path, state);
+    }
+}
+
+function createPath(node: Node, parentPath: NodePath | null, key: string | null, container: Node[] | null, index: number | null): NodePath {
+    const path: NodePath = {
+        node,
+        parent: parentPath ? parentPath.node : null,
+        parentPath,
+        key,
+        container,
+        index,
+        removed: false,
+        skipped: false,
+        replaceWith(replacement: Node) {
+            assertAttached(path);
+            if (path.container) {
+                path.container[path.index] = replacement;
+            } else if (path.parent) {
+                path.parent[path.key] = replacement;
+            }
+            path.node = replacement;
+        },
+        remove() {
+            assertAttached(path);
+            if (path.container) {
+                path.container.splice(path.index, 1);
+            } else if (path.parent) {
+                path.parent[path.key] = null;
+            }
+            path.removed = true;
+        },
+        insertBefore(...nodes: Node[]) {
+            assertList(path);
+            path.container.splice(path.index, 0, ...nodes);
+            path.index += nodes.length;
+        },
+        insertAfter(...nodes: Node[]) {
+            assertList(path);
+            path.container.splice(path.index + 1, 0, ...nodes);
+        },
+        skip() {
+            path.skipped = true;
+        }
+    };
+
+    return path;
+}
+
+function assertAttached(path: NodePath): void {
+    if (path.removed) {
+        throw new Error(`Node "${path.node.type}" is already removed`);
+    }
+}
+
+function assertList(path: NodePath): void {
+    assertAttached(path);
+    if (!path.container) {
+        throw new Error(`Unable to insert siblings of node "${path.node.type}": it is not in a list`);
+    }
+}
+
+function isChild(value: any): boolean {
+    if (Array.isArray(value)) {
+        return value.some(isChild);
+    }
+
+    return value != null && typeof value === 'object' && typeof value.type === 'string';
+}
@@ -55,6 +55,13 @@ export function isLiteral(node?: Node): node is Literal {
     return node && node.type === 'Literal';
 }
 
+/**
+ * Check if given value is an AST node
+ */
+export function isNode(value: unknown): value is Node {
+    return value != null && typeof value === 'object' && typeof (value as Node).type === 'string';
+}
+
 /**
  * Check if given node is a function
  */
@@ -120,7 +127,8 @@ export function eatSection(scanner: Scanner, open: number[], close: number[], al
             // unclosed section is allowed
             return true;
         } else {
-            throw scanner.error(`Expected ${close.map(ch => String.fromCharCode(ch)).join('')}`);
+            const expected = close.map(ch => String.fromCharCode(ch)).join('');
+            throw scanner.error('END_UNCLOSED_SECTION', `Expected ${expected}`, scanner.pos, { expected });
         }
     }
 
@@ -154,7 +162,9 @@ export function eatQuoted(scanner: Scanner): boolean {
             }
         }
 
-        throw scanner.error('Missing closing quote for string', start);
+        throw scanner.error('END_UNCLOSED_STRING', 'Missing closing quote for string', start, {
+            expected: String.fromCharCode(quote)
+        });
     }
 
     return false;
@@ -192,7 +202,9 @@ export function eatPair(scanner: Scanner, open: number, close: number): boolean
             }
         }
 
-        throw scanner.error(`Unable to find matching pair for ${String.fromCharCode(open)}`);
+        throw scanner.error('END_UNCLOSED_PAIR', `Unable to find matching pair for ${String.fromCharCode(open)}`, start, {
+            expected: String.fromCharCode(close)
+        });
     }
 
     return false;
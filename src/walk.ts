@@ -1,23 +1,68 @@
-import * as acornWalk from 'acorn-walk';
+import * as walker from 'acorn-walk';
 import * as Ast from './ast';
 
-export type AstWalker<T> = (node: Ast.Node, state: T, c: AstWalkerContinuation<T>) => void;
+export type AstWalker<T, N extends Ast.Node = Ast.Node> = (node: N, state: T, c: AstWalkerContinuation<T>) => void;
 export type AstWalkerContinuation<T> = (node: Ast.Node, state: T, type?: string) => void;
-export type AstVisitor<T, U> = (node: Ast.Node, state: T, addon: U) => void;
+export type AstVisitor<T, U, N extends Ast.Node = Ast.Node> = (node: N, state: T, addon: U) => void;
 export type AstVisitorCallback<T> = (node: Ast.Node, state: T, type: string) => void;
 export type AstAncestorVisitorCallback<T> = (node: Ast.Node, state: T, ancestors: Ast.Node[], type: string) => void;
 export type AstTestFn = (type: string) => boolean;
 
-export interface AstVisitors<T> {
-    [nodeType: string]: AstWalker<T>;
+/**
+ * Walkers of known node types, typed per node
+ */
+export type TypedAstVisitors<T> = {
+    [K in Ast.NodeType]?: AstWalker<T, Ast.NodeTypeMap[K]>;
+};
+
+/**
+ * Walkers of nodes: known node types, custom node types or categories of
+ * nodes, like `Expression` or `Pattern`
+ */
+export type AstVisitors<T> = TypedAstVisitors<T> & {
+    [nodeType: string]: AstWalker<T, any>;
+};
+
+export type AstVisitorMap<T, U> = {
+    [K in Ast.NodeType]?: AstVisitor<T, U, Ast.NodeTypeMap[K]>;
+} & {
+    [nodeType: string]: AstVisitor<T, U, any>;
+};
+
+type ENDWalkers = {
+    [K in Ast.ENDNodeType]: AstWalker<object, Ast.ENDNodeTypeMap[K]>;
+};
+
+interface FoundNode<T> {
+    node: Ast.Node;
+    state: T;
 }
 
-export interface AstVisitorMap<T, U> {
-    [nodeType: string]: AstVisitor<T, U>;
+/**
+ * Members of acorn-walk used here. Bundled typings of acorn-walk are incomplete
+ * and use own node type
+ */
+interface AcornWalk {
+    make<T>(funcs: AstVisitors<T>, baseVisitor?: AstVisitors<T>): AstVisitors<T>;
+    simple<T>(node: Ast.Node, visitors: AstVisitorMap<T, void>, baseVisitor?: AstVisitors<object>, state?: T, override?: string): void;
+    ancestor<T>(node: Ast.Node, visitors: AstVisitorMap<T, Ast.Expression[]>, baseVisitor?: AstVisitors<object>, state?: T): void;
+    recursive<T>(node: Ast.Node, state?: T, funcs?: AstVisitors<T>, baseVisitor?: AstVisitors<object>, override?: string): void;
+    full<T>(node: Ast.Node, callback: AstVisitorCallback<T>, baseVisitor?: AstVisitors<object>, state?: T, override?: string): void;
+    fullAncestor<T>(node: Ast.Node, callback: AstAncestorVisitorCallback<T>, baseVisitor?: AstVisitors<object>, state?: T): void;
+    findNodeAt<T>(node: Ast.Node, start?: number | null, end?: number | null, test?: string | AstTestFn | null,
+                  baseVisitor?: AstVisitors<object>, state?: T): FoundNode<T>;
+    findNodeAround<T>(node: Ast.Node, pos: number, test?: string | AstTestFn | null,
+                      baseVisitor?: AstVisitors<object>, state?: T): FoundNode<T>;
+    findNodeAfter<T>(node: Ast.Node, pos: number, test?: string | AstTestFn | null,
+                     baseVisitor?: AstVisitors<object>, state?: T): FoundNode<T>;
+    findNodeBefore<T>(node: Ast.Node, pos: number, test?: string | AstTestFn | null,
+                      baseVisitor?: AstVisitors<object>, state?: T): FoundNode<T>;
 }
 
+const acornWalk = walker as AcornWalk;
+
 // tslint:disable-next-line:no-empty
-const ignore: AstWalker<object> = () => {};
+const ignore: AstWalker<object, any> = () => {};
 
 /**
  * A simple walk is one where you simply specify callbacks to be
@@ -87,7 +132,7 @@ export function findNodeAt<T>(node: Ast.Node,
                               end?: number | null,
                               test?: string | AstTestFn | null,
                               baseVisitor = base, state?: T):
-                              { node: Node, state: T } {
+                              { node: Ast.Node, state: T } {
     return acornWalk.findNodeAt(node, start, end, test, baseVisitor, state);
 }
 
@@ -100,7 +145,7 @@ export function findNodeAround<T>(node: Ast.Node,
                                   test: string | AstTestFn | null,
                                   baseVisitor = base,
                                   state?: T):
-                                  { node: Node, state: T } {
+                                  { node: Ast.Node, state: T } {
     return acornWalk.findNodeAround(node, pos, test, baseVisitor, state);
 }
 
@@ -110,7 +155,7 @@ export function findNodeAround<T>(node: Ast.Node,
 export function findNodeAfter<T>(node: Ast.Node,
                                  pos: number,
                                  test: string | AstTestFn | null,
-                                 baseVisitor = base, state?: T): { node: Node, state: T } {
+                                 baseVisitor = base, state?: T): { node: Ast.Node, state: T } {
     return acornWalk.findNodeAfter(node, pos, test, baseVisitor, state);
 }
 
@@ -122,96 +167,133 @@ export function findNodeBefore<T>(node: Ast.Node,
                                   test: string | AstTestFn | null,
                                   baseVisitor = base,
                                   state?: T):
-                                  { node: Node, state: T } {
-    return acornWalk.findNodeAfter(node, pos, test, baseVisitor, state);
+                                  { node: Ast.Node, state: T } {
+    return acornWalk.findNodeBefore(node, pos, test, baseVisitor, state);
 }
 
-export const base: AstVisitors<object> = acornWalk.make({
-    ENDIdentifier: ignore,
-    ENDPropertyIdentifier: ignore,
-    ENDStateIdentifier: ignore,
-    ENDStoreIdentifier: ignore,
-    ENDVariableIdentifier: ignore,
-    ENDProgram(node: Ast.ENDProgram, state, c) {
+/**
+ * Walkers of all Endorphin nodes. Declared as complete map of node types so
+ * that every new node type requires a walker
+ */
+const endWalkers: ENDWalkers = {
+    ENDProgram(node, state, c) {
         walkArray(node.body, state, c);
         walkArray(node.stylesheets, state, c);
         walkArray(node.scripts, state, c);
     },
-    ENDTemplate(node: Ast.ENDTemplate, state, c) {
+    ENDTemplate(node, state, c) {
         walkArray(node.body, state, c);
     },
-    ENDPartial(node: Ast.ENDPartial, state, c) {
+    ENDPartial(node, state, c) {
         walkArray(node.params, state, c);
         walkArray(node.body, state, c);
     },
-    ENDElement(node: Ast.ENDElement, state, c) {
+    ENDElement(node, state, c) {
         c(node.name, state);
         walkArray(node.attributes, state, c);
+        walkRef(node.ref, state, c);
         walkArray(node.directives, state, c);
         walkArray(node.body, state, c);
     },
-    ENDAttribute(node: Ast.ENDAttribute, state, c) {
+    ENDAttribute(node, state, c) {
         c(node.name, state);
-        c(node.value, state);
+        walkOptional(node.value, state, c);
     },
-    ENDDirective(node: Ast.ENDDirective, state, c) {
-        c(node.value, state);
+    ENDDirective(node, state, c) {
+        walkOptional(node.value, state, c);
     },
-    ENDAttributeValueExpression(node: Ast.ENDAttributeValueExpression, state, c) {
+    ENDAttributeValueExpression(node, state, c) {
         walkArray(node.elements, state, c);
     },
-    ENDVariable(node: Ast.ENDVariable, state, c) {
-        c(node.value, state);
+    ENDVariable(node, state, c) {
+        walkOptional(node.value, state, c);
     },
-    ENDIfStatement(node: Ast.ENDIfStatement, state, c) {
+    ENDIfStatement(node, state, c) {
         c(node.test, state);
         walkArray(node.consequent, state, c);
     },
-    ENDChooseStatement(node: Ast.ENDChooseStatement, state, c) {
+    ENDChooseStatement(node, state, c) {
         walkArray(node.cases, state, c);
+        walkArray(node.comments || [], state, c);
+    },
+    ENDChooseCase(node, state, c) {
+        walkOptional(node.test, state, c);
+        walkArray(node.consequent, state, c);
     },
-    ENDForEachStatement(node: Ast.ENDForEachStatement, state, c) {
+    ENDForEachStatement(node, state, c) {
         c(node.select, state);
-        if (node.key) {
-            c(node.key, state);
-        }
+        walkOptional(node.key, state, c);
         walkArray(node.body, state, c);
     },
-    ENDPartialStatement(node: Ast.ENDPartialStatement, state, c) {
+    ENDPartialStatement(node, state, c) {
         walkArray(node.params, state, c);
     },
-    ENDVariableStatement(node: Ast.ENDVariableStatement, state, c) {
+    ENDVariableStatement(node, state, c) {
         walkArray(node.variables, state, c);
     },
-    ENDAttributeStatement(node: Ast.ENDAttributeStatement, state, c) {
+    ENDAttributeStatement(node, state, c) {
         walkArray(node.attributes, state, c);
         walkArray(node.directives, state, c);
     },
-    ENDAddClassStatement(node: Ast.ENDAddClassStatement, state, c) {
+    ENDAddClassStatement(node, state, c) {
         walkArray(node.tokens, state, c);
+        walkArray(node.comments || [], state, c);
     },
-    ENDInnerHTML(node: Ast.ENDInnerHTML, state, c) {
+    ENDInnerHTML(node, state, c) {
         c(node.value, state);
     },
-    ENDGetter(node: Ast.ENDGetter, state, c) {
+    ENDGetter(node, state, c) {
         walkArray(node.path, state, c);
     },
-    ENDCaller(node: Ast.ENDCaller, state, c) {
+    ENDCaller(node, state, c) {
         c(node.object, state);
         c(node.property, state);
         walkArray(node.arguments, state, c);
     },
-    ENDFilter(node: Ast.ENDFilter, state, c) {
+    ENDFilter(node, state, c) {
         c(node.object, state);
         c(node.expression, state);
     },
-    ENDText: ignore,
+    ParsedTag(node, state, c) {
+        c(node.name, state);
+        walkArray(node.attributes, state, c);
+        walkRef(node.ref, state, c);
+        walkArray(node.directives, state, c);
+    },
+    ENDComment: ignore,
+    ENDCData: ignore,
+    ENDProcessingInstruction: ignore,
     ENDImport: ignore,
     ENDStylesheet: ignore,
     ENDScript: ignore,
     ENDGetterPrefix: ignore
-} as AstVisitors<object>);
+};
+
+// Legacy node type, which is never produced by parser
+export const base: AstVisitors<object> = acornWalk.make({ ...endWalkers, RegExpLiteral: ignore });
+
+/**
+ * Adds walkers for custom node types, e.g. nodes of custom control statements,
+ * to given base walker, which is `base` used by walk functions by default.
+ * Base walker of acorn-walk itself is never modified
+ */
+export function registerWalkers(visitors: AstVisitors<object>, baseVisitor = base): AstVisitors<object> {
+    Object.keys(visitors).forEach(type => baseVisitor[type] = visitors[type]);
+    return baseVisitor;
+}
 
 function walkArray<T>(nodes: Ast.Node[], state: T, c: AstWalkerContinuation<T>) {
     nodes.forEach(node => c(node, state));
 }
+
+function walkOptional<T>(node: Ast.Node | null | undefined, state: T, c: AstWalkerContinuation<T>) {
+    if (node) {
+        c(node, state);
+    }
+}
+
+function walkRef<T>(ref: string | Ast.Program | undefined, state: T, c: AstWalkerContinuation<T>) {
+    if (ref && typeof ref !== 'string') {
+        c(ref, state);
+    }
+}
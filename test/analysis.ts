@@ -0,0 +1,173 @@
+import { deepEqual, throws } from 'assert';
+import parse, {
+    analyzeVariables, getScopeChain, getVisibleVariables, analyzeDependencies, analyzeMutations, getManifest, validateImports,
+    validatePartials, ENDSyntaxError
+} from '../src/index';
+import { Node, ENDTemplate, ENDElement, ENDStatement } from '../src/ast';
+
+describe('Template analysis', () => {
+    it('should analyze variable scopes', () => {
+        const code = `<template>
+    <e:variable foo={1} bar={@baz} />
+    <div title={@foo} e:if={@index}>
+        <e:variable inner={2} />
+        {@inner + @later}
+        <e:variable later={3} />
+    </div>
+    <e:for-each select={items}>{@value + @index}</e:for-each>
+    {@inner}
+</template>`;
+        const result = analyzeVariables(parse(code));
+
+        deepEqual(result.diagnostics.map(d => [d.code, code.slice(d.start, d.end)]), [
+            ['END_UNDECLARED_VARIABLE', '@baz'],
+            ['END_VARIABLE_OUT_OF_SCOPE', '@index'],
+            ['END_VARIABLE_BEFORE_DECLARATION', '@later'],
+            ['END_VARIABLE_OUT_OF_SCOPE', '@inner'],
+            ['END_UNUSED_VARIABLE', 'bar={@baz}'],
+            ['END_UNUSED_VARIABLE', 'later={3}']
+        ]);
+
+        deepEqual(result.declarations.map(d => [d.name, d.kind, d.references.length]), [
+            ['foo', 'variable', 1],
+            ['bar', 'variable', 0],
+            ['inner', 'variable', 1],
+            ['later', 'variable', 0],
+            ['index', 'iterator', 1],
+            ['key', 'iterator', 0],
+            ['value', 'iterator', 1]
+        ]);
+
+        const pos = code.indexOf('{@inner + ') + 1;
+        deepEqual(getScopeChain(result, pos).map(scope => scope.node.type), ['ENDElement', 'ENDIfStatement', 'ENDTemplate', 'ENDProgram']);
+        deepEqual(getVisibleVariables(result, pos).map(decl => decl.name), ['inner', 'bar', 'foo']);
+        deepEqual(getVisibleVariables(result, code.indexOf('@value')).map(decl => decl.name), ['value', 'key', 'index', 'bar', 'foo']);
+
+        // Custom statements are analyzed by their child nodes
+        const custom = `<template><e:variable a={1} /><div title={@a}><e:variable b={2} />{@b}</div>{@b}</template>`;
+        const ast = parse(custom);
+        const template = ast.body[0] as ENDTemplate;
+        const div = template.body[1] as ENDElement;
+        template.body[1] = { type: 'MyStatement', test: div.attributes[0].value, body: div.body } as Node as ENDStatement;
+
+        const customResult = analyzeVariables(ast);
+        deepEqual(customResult.declarations.map(d => [d.name, d.references.length]), [['a', 1], ['b', 1]]);
+        deepEqual(customResult.diagnostics.map(d => [d.code, custom.slice(d.start, d.end)]), [['END_VARIABLE_OUT_OF_SCOPE', '@b']]);
+    });
+
+    it('should collect expression dependencies', () => {
+        const code = '<div title={#user.name[foo].x} e:if={$cart.items.length}>{@v.c + count + handler()}{#items[@index].name}</div>';
+        const deps = Array.from(analyzeDependencies(parse(code)).values()).map(item => ({
+            owner: item.owner.type,
+            property: Array.from(item.property),
+            state: Array.from(item.state),
+            store: Array.from(item.store),
+            variable: Array.from(item.variable),
+            paths: Array.from(item.paths).sort()
+        }));
+
+        deepEqual(deps, [
+            { owner: 'ENDAttribute', property: ['foo'], state: ['user'], store: [], variable: [], paths: ['props.foo', 'state.user.name'] },
+            { owner: 'ENDDirective', property: [], state: [], store: ['cart'], variable: [], paths: ['store.cart.items.length'] },
+            {
+                owner: 'Program', property: ['count', 'handler'], state: [], store: [], variable: ['v'],
+                paths: ['props.count', 'props.handler', 'scope.v.c']
+            },
+            { owner: 'Program', property: [], state: ['items'], store: [], variable: ['index'], paths: ['scope.index', 'state.items'] }
+        ]);
+    });
+
+    it('should collect event handler mutations', () => {
+        const code = '<button on:click={#count++} '
+            + 'on:input={e => (#user.name = e.target.value, $cart.items[@i] += 1, [@a] = e)} on:blur={foo.bar = 1} />';
+        const result = analyzeMutations(parse(code, 'test.html', { recover: true }));
+        const mutations = result.events.map(item => [item.event, item.mutations.map(m => [m.context, m.name, m.path])]);
+
+        deepEqual(mutations, [
+            ['click', [['state', 'count', 'state.count']]],
+            ['input', [['state', 'user', 'state.user.name'], ['store', 'cart', 'store.cart.items'], ['variable', 'a', 'scope.a']]],
+            ['blur', [['property', 'foo', 'props.foo.bar']]]
+        ]);
+        deepEqual(result.diagnostics.map(d => [d.code, code.slice(d.start, d.end)]), [['END_PROP_MUTATION', 'foo.bar = 1']]);
+
+        // Prop writes are rejected by parser
+        throws(() => parse('<div on:click={foo = 1} />'), (err: ENDSyntaxError) => err.code === 'END_PROP_MUTATION');
+
+        const options = { globals: { window: true }, recover: true };
+        const recovered = parse('<button on:click={enabled = !enabled} on:focus={window.foo = 1} on:blur={e => { let x; x = 1; }} />', null, options);
+        deepEqual(recovered.diagnostics.map(d => [d.code, d.data.path]), [['END_PROP_MUTATION', 'props.enabled']]);
+        deepEqual(analyzeMutations(recovered).diagnostics.map(d => d.data.path), ['props.enabled']);
+    });
+
+    it('should collect template manifest', () => {
+        const code = `<link rel="import" href="./my-button.html" />
+<link rel="import" href="./my-unused.html" />
+<template>
+    <my-button ref="btn" on:click={#count++} title={label}>
+        <span slot="icon">{$theme.icon}</span>
+    </my-button>
+    <div ref={#ref}><slot /><slot name="footer" /></div>
+    <e:attribute on:focus={handleFocus} />
+    <partial:item title={#title} />
+</template>
+<template partial:item title="x"><b>{@title}</b></template>`;
+        const manifest = getManifest(parse(code));
+
+        deepEqual(manifest.imports, [
+            { name: 'my-button', href: './my-button.html', used: true },
+            { name: 'my-unused', href: './my-unused.html', used: false }
+        ]);
+        deepEqual(manifest.components, ['my-button']);
+        deepEqual(manifest.partials, ['item']);
+        deepEqual(manifest.partialCalls, ['item']);
+        deepEqual(manifest.refs, ['btn']);
+        deepEqual(manifest.dynamicRefs.map(ref => code.slice(ref.start, ref.end)), ['#ref']);
+        deepEqual(manifest.slots, ['', 'footer']);
+        deepEqual(manifest.slotted, ['icon']);
+        deepEqual(manifest.events, ['click', 'focus']);
+        deepEqual(manifest.props, ['label', 'handleFocus']);
+        deepEqual(manifest.state, ['count', 'ref', 'title']);
+        deepEqual(manifest.store, ['theme']);
+    });
+
+    it('should validate component imports', () => {
+        const code = `<link rel="import" href="./my-button.html" />
+<link rel="import" href="./my-unused.html" />
+<link rel="import" href="./font-face.html" />
+<template>
+    <my-button><my-icon /></my-button>
+    <font-face />
+</template>`;
+        const diagnostics = validateImports(parse(code));
+
+        deepEqual(diagnostics.map(d => [d.code, code.slice(d.start, d.end)]), [
+            ['END_UNKNOWN_COMPONENT', 'my-icon'],
+            ['END_RESERVED_COMPONENT_NAME', 'font-face'],
+            ['END_UNUSED_IMPORT', '<link rel="import" href="./my-unused.html" />']
+        ]);
+    });
+
+    it('should validate partials', () => {
+        const lib = parse('<template partial:icon name size="16"></template>');
+        const code = `<template>
+    <partial:item title="a" />
+    <partial:item label="b" />
+    <partial:icon name="x" />
+    <partial:icon size="20" />
+    <partial:missing />
+</template>
+<template partial:item title></template>
+<template partial:item></template>
+<template partial:icon></template>`;
+        const diagnostics = validatePartials(parse(code), [lib]);
+
+        deepEqual(diagnostics.map(d => [d.code, code.slice(d.start, d.end)]), [
+            ['END_DUPLICATE_PARTIAL', '<template partial:item></template>'],
+            ['END_DUPLICATE_PARTIAL', '<template partial:icon></template>'],
+            ['END_UNKNOWN_PARTIAL_PARAM', 'label="b"'],
+            ['END_MISSING_PARTIAL_PARAM', '<partial:item label="b" />'],
+            ['END_MISSING_PARTIAL_PARAM', '<partial:icon size="20" />'],
+            ['END_UNKNOWN_PARTIAL', '<partial:missing />']
+        ]);
+    });
+});
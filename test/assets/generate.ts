@@ -1,5 +1,5 @@
 import { generate, baseGenerator } from 'astring';
-import { Program, ENDGetterPrefix, IdentifierContext, ENDGetter, ENDCaller, ENDFilter, Identifier } from '../../src/ast';
+import { Program, ENDGetterPrefix, IdentifierContext, ENDGetter, ENDCaller, ENDFilter, Identifier, ChainExpression } from '../../src/ast';
 
 interface AstringState {
     write(text: string): void;
@@ -46,8 +46,12 @@ const generator = Object.assign({}, baseGenerator, {
         this[expression.type](expression, state);
         state.write(')');
     },
+    ChainExpression(node: ChainExpression, state: AstringState) {
+        // Getters are safe already, generate expression as is
+        this[node.expression.type](node.expression, state);
+    },
     Identifier(node: Identifier, state: AstringState) {
-        if (node.context && node.context !== 'helper') {
+        if (node.context && node.context !== 'helper' && node.context !== 'definition') {
             state.write(getPrefix(node.context));
             state.write('.');
         }
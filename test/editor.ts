@@ -0,0 +1,198 @@
+import { equal, deepEqual, throws } from 'assert';
+import parse, { createEditor, reparse, ENDTemplate, ENDElement, Program, SourceMap } from '../src/index';
+
+const base64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Decodes mappings of given source map into `[column, originalLine, originalColumn]`
+ * segments for each generated line
+ */
+function decodeMappings(map: SourceMap): number[][][] {
+    let originalLine = 0;
+    let originalColumn = 0;
+
+    return map.mappings.split(';').map(line => {
+        let column = 0;
+        return line.split(',').filter(Boolean).map(segment => {
+            const values: number[] = [];
+            let value = 0;
+            let shift = 0;
+
+            for (const ch of segment) {
+                const digit = base64.indexOf(ch);
+                value += (digit & 31) << shift;
+                if (digit & 32) {
+                    shift += 5;
+                } else {
+                    values.push(value & 1 ? -(value >> 1) : value >> 1);
+                    value = shift = 0;
+                }
+            }
+
+            column += values[0];
+            originalLine += values[2];
+            originalColumn += values[3];
+            return [column, originalLine, originalColumn];
+        });
+    });
+}
+
+/**
+ * Returns zero-based line and column of given offset in code
+ */
+function position(code: string, offset: number): [number, number] {
+    const lines = code.slice(0, offset).split('\n');
+    return [lines.length - 1, lines[lines.length - 1].length];
+}
+
+describe('Editor', () => {
+    it('should apply minimal edits', () => {
+        const code = `<template>
+    <div class="a" title={foo} hidden>
+        <span>{bar + 1}</span>
+        <i />
+    </div>
+</template>`;
+        const ast = parse(code, 'test.html');
+        const div = (ast.body[0] as ENDTemplate).body[0] as ENDElement;
+        const [cls, title, hidden] = div.attributes;
+        const [span, i] = div.body.filter(node => node.type === 'ENDElement') as ENDElement[];
+        const editor = createEditor(code, ast);
+
+        editor.renameAttribute(cls, 'className');
+        editor.setAttributeValue(title, 'Hello "world"');
+        editor.removeNode(hidden);
+        editor.wrapWith(span, '<e:if test={#enabled}>');
+        editor.replaceExpression(span.body[0] as Program, '#bar * 2');
+        editor.removeNode(i);
+        throws(() => editor.removeNode(span), /overlaps/);
+
+        const result = editor.apply('test.out.html');
+        equal(result.code, `<template>
+    <div className="a" title='Hello "world"'>
+        <e:if test={#enabled}><span>{#bar * 2}</span></e:if>
+    </div>
+</template>`);
+
+        equal(result.map.file, 'test.out.html');
+        deepEqual(result.map.sources, ['test.html']);
+        equal(result.map.mappings, 'AAAA;AACA,SAAS,SAAK,UAAU,gBAAa;AACrC,QAAQ,sBAAA,OAAO,QAAO,QAAQ,OAAA;AAE9B;AACA');
+
+        // Edits can be used to update AST
+        const json = (node: any) => JSON.parse(JSON.stringify(node));
+        deepEqual(json(reparse(ast, result.code, result.edits)), json(parse(result.code, 'test.html')));
+    });
+
+    it('should remove whole lines', () => {
+        const elements = (source: string) => (parse(source).body[0] as ENDElement).body.filter(node => node.type === 'ENDElement');
+        let code = '<div>\n    <i />\n    <b />\n</div>';
+        let editor = createEditor(code);
+        editor.removeNode(elements(code)[0]);
+        equal(editor.apply().code, '<div>\n    <b />\n</div>');
+
+        code = '<div>\r\n    <i />  \r\n    <b />\r\n</div>';
+        editor = createEditor(code);
+        editor.removeNode(elements(code)[0]);
+        equal(editor.apply().code, '<div>\r\n    <b />\r\n</div>');
+
+        // Node shares line with other content: remove node only
+        code = '<div>\r\n    <i /> text\r\n</div>';
+        editor = createEditor(code);
+        editor.removeNode(elements(code)[0]);
+        equal(editor.apply().code, '<div>\r\n     text\r\n</div>');
+    });
+
+    it('should set attribute values', () => {
+        const code = '<div title={foo} a="b" hidden />';
+        const [title, a, hidden] = (parse(code).body[0] as ENDElement).attributes;
+        const editor = createEditor(code);
+
+        editor.setAttributeValue(a, title.value);
+        editor.setAttributeValue(hidden, 'yes');
+        editor.setAttributeValue(title, null);
+        equal(editor.apply().code, '<div title a={foo} hidden="yes" />');
+    });
+
+    it('should wrap nested nodes', () => {
+        const code = '<template><div><p><b>x</b></p></div></template>';
+        const ast = parse(code);
+        const p = ((ast.body[0] as ENDTemplate).body[0] as ENDElement).body[0] as ENDElement;
+        const editor = createEditor(code, ast);
+
+        editor.wrapWith(p, '<e:if test={a}>');
+        editor.wrapWith(p.body[0], '<e:for-each select={items}>');
+
+        const result = editor.apply();
+        equal(result.code, '<template><div><e:if test={a}><p><e:for-each select={items}><b>x</b></e:for-each></p></e:if></div></template>');
+
+        const json = (node: any) => JSON.parse(JSON.stringify(node));
+        deepEqual(json(reparse(ast, result.code, result.edits)), json(parse(result.code)));
+    });
+
+    it('should nest wrappers at shared offsets', () => {
+        const code = '<div><i /><b /></div>';
+        const ast = parse(code);
+        const div = ast.body[0] as ENDElement;
+        const [i, b] = div.body;
+
+        // Same node wrapped twice: first wrapper is outer
+        let editor = createEditor(code, ast);
+        editor.wrapWith(i, '<e:if test={x}>');
+        editor.wrapWith(i, '<e:for-each select={y}>');
+        equal(editor.apply().code, '<div><e:if test={x}><e:for-each select={y}><i /></e:for-each></e:if><b /></div>');
+
+        // Adjacent siblings, wrapped in reverse order
+        editor = createEditor(code, ast);
+        editor.wrapWith(b, '<e:if test={y}>');
+        editor.wrapWith(i, '<e:if test={x}>');
+        equal(editor.apply().code, '<div><e:if test={x}><i /></e:if><e:if test={y}><b /></e:if></div>');
+
+        // Nested nodes, inner one wrapped first
+        editor = createEditor(code, ast);
+        editor.wrapWith(i, '<e:if test={x}>');
+        editor.wrapWith(div, '<e:if test={y}>');
+        equal(editor.apply().code, '<e:if test={y}><div><e:if test={x}><i /></e:if><b /></div></e:if>');
+
+        // Only template content can be wrapped
+        const source = '<div title={a}>{b}</div>';
+        const sourceAst = parse(source);
+        const elem = sourceAst.body[0] as ENDElement;
+        editor = createEditor(source, sourceAst);
+        throws(() => editor.wrapWith(elem.attributes[0], '<e:if test={x}>'), /Unable to wrap ENDAttribute/);
+        throws(() => editor.wrapWith(elem.attributes[0].value, '<e:if test={x}>'), /Unable to wrap Program/);
+        editor.wrapWith(elem.body[0], '<e:if test={x}>');
+        equal(editor.apply().code, '<div title={a}><e:if test={x}>{b}</e:if></div>');
+    });
+
+    it('should map generated code to original positions', () => {
+        const code = '<template>\n    <div class="a" hidden>\n        <span>{bar}</span>\n    </div>\n</template>';
+        const ast = parse(code);
+        const div = (ast.body[0] as ENDTemplate).body[0] as ENDElement;
+        const editor = createEditor(code, ast);
+
+        editor.renameAttribute(div.attributes[0], 'className');
+        editor.removeNode(div.attributes[1]);
+        editor.wrapWith(div.body[0], '<e:if test={#enabled}>\n');
+
+        const result = editor.apply();
+        const mappings = decodeMappings(result.map);
+        const original = (line: number, column: number) => {
+            // Find segment of generated position, copied text is mapped with offset
+            const segment = mappings[line].filter(item => item[0] <= column).pop();
+            return [segment[1], segment[2] + column - segment[0]];
+        };
+
+        [
+            ['className', 'class'],
+            ['="a"', '="a"'],
+            ['<e:if', '<span>'],
+            ['<span>', '<span>'],
+            ['{bar}', '{bar}'],
+            ['</div>', '</div>'],
+            ['</template>', '</template>']
+        ].forEach(([generated, source]) => {
+            const [line, column] = position(result.code, result.code.indexOf(generated));
+            deepEqual(original(line, column), position(code, code.indexOf(source)), generated);
+        });
+    });
+});
@@ -1,17 +1,21 @@
 import * as assert from 'assert';
 import compile from '../src/index';
 import { prefix } from '../src/elements/utils';
+import { Node, ENDTemplate, ENDElement, Program, Literal } from '../src/ast';
 
 describe('Error reporting', () => {
     it('XML errors', () => {
         assert.throws(() => compile('<div>\n\t<foo></bar>\n</div>'), {
             name: 'SyntaxError',
+            code: 'END_UNEXPECTED_CLOSE_TAG',
+            data: { tag: 'bar', expected: 'foo' },
             rawMessage: 'Unexpected closing tag </bar>, expecting </foo>',
             snippet: '<div>\n  <foo></bar>\n-------^\n</div>'
         });
 
         assert.throws(() => compile('<div>\n\t<foo a="b></foo>\n</div>'), {
             name: 'SyntaxError',
+            code: 'END_UNCLOSED_STRING',
             rawMessage: 'Missing closing quote for string',
             snippet: '<div>\n  <foo a="b></foo>\n---------^\n</div>'
         });
@@ -19,22 +23,139 @@ describe('Error reporting', () => {
         // tslint:disable-next-line:max-line-length
         assert.throws(() => compile(`<template>\n\t<${prefix}:choose>\n\t\t<${prefix}:when test={foo}></${prefix}:when>\n\t\t<div></div>\n\t</${prefix}:choose>\n</template>`), {
             name: 'SyntaxError',
+            code: 'END_UNEXPECTED_CHOOSE_CASE',
             rawMessage: `Unexpected <div> tag, expecting <${prefix}:when> or <${prefix}:otherwise>`
         });
+
+        assert.throws(() => compile('<div>\n\t<span>'), {
+            name: 'SyntaxError',
+            code: 'END_UNCLOSED_TAG',
+            data: { expected: 'span' },
+            start: 7,
+            end: 13
+        });
     });
 
     it('expression errors', () => {
         assert.throws(() => compile(`<template>\n\t<${prefix}:variable foo={a +} />\n</template>`), {
             name: 'SyntaxError',
+            code: 'END_JS_SYNTAX',
             rawMessage: 'Unexpected token',
             lineNumber: 2,
-            columnNumber: 21
+            columnNumber: 21,
+            start: 32
         });
         assert.throws(() => compile('<template>\n\t<div on:click="foo" />\n</template>'), {
             name: 'SyntaxError',
+            code: 'END_INVALID_EVENT_HANDLER',
             rawMessage: 'Event handler must be expression',
             lineNumber: 2,
-            columnNumber: 15
+            columnNumber: 15,
+            start: 26,
+            end: 31,
+            loc: {
+                start: { line: 2, column: 15, offset: 26 },
+                end: { line: 2, column: 20, offset: 31 },
+                source: undefined
+            }
         });
     });
+
+    it('recovery mode', () => {
+        const recover = (code: string) => compile(code, null, { recover: true });
+
+        // Unclosed and mismatched tags
+        let ast = recover('<template>\n\t<div><span>foo</div>\n');
+        let tmpl = ast.body[0] as ENDTemplate;
+        let div = tmpl.body[0] as ENDElement;
+        assert.equal(div.name.name, 'div');
+        assert.equal((div.body[0] as ENDElement).name.name, 'span');
+        assert.deepEqual(ast.diagnostics.map(d => d.message), [
+            'Expecting </span>',
+            'Expecting </template>'
+        ]);
+        assert.equal(ast.diagnostics[0].severity, 'error');
+        assert.equal(ast.diagnostics[0].code, 'END_UNCLOSED_TAG');
+        assert.deepEqual(ast.diagnostics[0].data, { expected: 'span' });
+        assert.equal(ast.diagnostics[0].start, 17);
+        assert.equal(ast.diagnostics[0].end, 23);
+        assert.deepEqual(ast.diagnostics[0].loc.start, { line: 2, column: 6, offset: 17 });
+
+        // Close tag of ancestor closes all nested elements, the rest of
+        // document is not consumed by unclosed element
+        ast = recover('<template><div><span><b>foo</div><p>bar</p></template>');
+        tmpl = ast.body[0] as ENDTemplate;
+        assert.deepEqual(tmpl.body.map(item => (item as ENDElement).name.name), ['div', 'p']);
+        div = tmpl.body[0] as ENDElement;
+        assert.equal(div.end, ast.end - '<p>bar</p></template>'.length);
+        assert.deepEqual(ast.diagnostics.map(d => d.message), ['Expecting </b>', 'Expecting </span>']);
+
+        // Closing tag without open one is skipped
+        ast = recover('<template><div><span>foo</b></span></div></template>');
+        assert.deepEqual(ast.diagnostics.map(d => [d.code, d.message]), [
+            ['END_UNEXPECTED_CLOSE_TAG', 'Unexpected closing tag </b>, expecting </span>']
+        ]);
+
+        // Invalid attributes and expressions
+        ast = recover(`<template><div a= b="c" on:click="d" title={a +}></div><${prefix}:if>foo</${prefix}:if></template>`);
+        tmpl = ast.body[0] as ENDTemplate;
+        div = tmpl.body[0] as ENDElement;
+        assert.equal(div.attributes.length, 3);
+        assert.equal(div.attributes[0].value, null);
+        assert.equal(div.directives.length, 0);
+        const title = div.attributes[2].value as Program;
+        assert.equal(title.type, 'Program');
+        assert.equal(title.body.length, 0);
+        assert.equal(title.raw, 'a +');
+        assert.equal(tmpl.body[1].type, 'ENDIfStatement');
+        assert.deepEqual(ast.diagnostics.map(d => d.message), [
+            'Expecting attribute value',
+            'Unexpected token',
+            'Event handler must be expression',
+            `Expecting "test" attribute in <${prefix}:if> element`,
+            'Expecting expression as "test" attribute value'
+        ]);
+
+        // Invalid names and values are reported
+        ast = recover(`<template><${prefix}:variable {foo}="1" bar=2 /></template><script type={a}></script>`);
+        assert.deepEqual(ast.diagnostics.map(d => d.code), ['END_INVALID_VARIABLE_NAME', 'END_EXPECTED_LITERAL']);
+        assert.equal(ast.scripts.length, 0);
+
+        // Parser resynchronizes at next tag after unclosed constructs
+        const names = (nodes: Node[]) => nodes.map(node => node.type === 'ENDElement' ? (node as ENDElement).name.name : node.type);
+        ast = recover('<template><div></ ><p>a</p></div><i /></template>');
+        tmpl = ast.body[0] as ENDTemplate;
+        assert.deepEqual(names(tmpl.body), ['div', 'i']);
+        assert.deepEqual(names((tmpl.body[0] as ENDElement).body), ['p']);
+        assert.deepEqual(ast.diagnostics.map(d => d.code), ['END_UNEXPECTED_CHARACTER']);
+
+        ast = recover('<template><div>{{ a </div><p>b</p></template>');
+        tmpl = ast.body[0] as ENDTemplate;
+        assert.deepEqual(names(tmpl.body), ['div', 'p']);
+        assert.deepEqual(names((tmpl.body[0] as ENDElement).body), ['ENDInnerHTML']);
+        assert.deepEqual(ast.diagnostics.map(d => d.code), ['END_UNCLOSED_PAIR']);
+
+        ast = recover('<template><div title="a><p>b</p></div><i /></template>');
+        tmpl = ast.body[0] as ENDTemplate;
+        div = tmpl.body[0] as ENDElement;
+        assert.deepEqual(names(tmpl.body), ['div', 'i']);
+        assert.equal((div.attributes[0].value as Literal).value, 'a');
+        assert.deepEqual(names(div.body), ['p']);
+        assert.deepEqual(ast.diagnostics.map(d => d.code), ['END_UNCLOSED_STRING']);
+
+        // Statement with unrecoverable error is dropped, but not the rest of document
+        ast = recover('<div title={a></div>text<p>b</p>');
+        assert.deepEqual(names(ast.body), ['p']);
+        assert.deepEqual(ast.diagnostics.map(d => d.code), ['END_UNCLOSED_PAIR', 'END_UNEXPECTED_TOKEN']);
+
+        // Unclosed tags are reported at open tag
+        ast = recover('<template><div>');
+        assert.deepEqual(ast.diagnostics.map(d => [d.message, d.start, d.end]), [
+            ['Expecting </div>', 10, 15],
+            ['Expecting </template>', 0, 10]
+        ]);
+
+        // Should not have diagnostics without recovery mode
+        assert.equal(compile('<div></div>').diagnostics, undefined);
+    });
 });
@@ -1,6 +1,7 @@
 import { deepEqual, equal } from 'assert';
-import { parseJS, walk } from '../src/index';
-import { Identifier, Program, IdentifierContext } from '../src/ast';
+import { parseJS, walk, resolveBindings } from '../src/index';
+import { Identifier, Program, IdentifierContext, ExpressionStatement, ChainExpression, BinaryExpression,
+    AssignmentExpression, ArrayPattern, Node } from '../src/ast';
 import generateJS from './assets/generate';
 
 interface IdContextMap {
@@ -45,6 +46,87 @@ describe('JS Parser', () => {
             bar: undefined,
             baz: undefined
         });
+
+        // Assignment targets
+        const assignment = (code: string) => (parseJS(code).body[0] as ExpressionStatement).expression as AssignmentExpression;
+        const target = assignment('#count = 1').left as Identifier;
+        deepEqual([target.name, target.context, target.raw], ['count', 'state', '#count']);
+
+        const pattern = assignment('[a, #b, @c] = d').left as Node as ArrayPattern;
+        deepEqual(pattern.elements.map((id: Identifier) => [id.name, id.context]), [['a', 'property'], ['b', 'state'], ['c', 'variable']]);
+    });
+
+    it('should offset locations once', () => {
+        // Nodes which start at the same location share position object
+        const ast = parseJS('foo +\n  bar', { offset: { line: 3, column: 10, offset: 40 } });
+        const stmt = ast.body[0] as ExpressionStatement;
+        const expr = stmt.expression as BinaryExpression;
+        const [foo, bar] = [expr.left, expr.right] as Identifier[];
+
+        deepEqual(stmt.loc.start, { line: 3, column: 10 });
+        deepEqual(expr.loc.start, { line: 3, column: 10 });
+        deepEqual([foo.start, foo.end, foo.loc.start, foo.loc.end], [40, 43, { line: 3, column: 10 }, { line: 3, column: 13 }]);
+        deepEqual([bar.start, bar.end, bar.loc.start, bar.loc.end], [48, 51, { line: 4, column: 2 }, { line: 4, column: 5 }]);
+    });
+
+    it('should resolve scopes', () => {
+        const ast = parseJS('foo[({ a = b, ...c }, [d, [e]]) => a + c + d + e + f + (f => f + b)(@g) + @index + Math.max(h)]', {
+            helpers: ['h']
+        });
+        const bindings = resolveBindings(ast);
+        const kinds: string[] = [];
+        const decl = new Set<Identifier>();
+
+        bindings.forEach((binding, id) => {
+            kinds.push(`${binding.name}:${binding.kind}${id.context === 'definition' ? ':def' : ''}`);
+            if (binding.declaration) {
+                decl.add(binding.declaration);
+            }
+        });
+
+        deepEqual(kinds, [
+            'foo:context',
+            'a:param:def', 'b:context', 'c:param:def', 'd:param:def', 'e:param:def',
+            'a:param', 'c:param', 'd:param', 'e:param', 'f:context',
+            'f:param:def', 'f:param', 'b:context', 'g:variable', 'index:variable',
+            'Math:global', 'h:helper'
+        ]);
+
+        // Every declaration is resolved to itself
+        decl.forEach(id => equal(bindings.get(id).declaration, id));
+        equal(decl.size, 5);
+
+        equal(js('({ a: [b] = c }) => b + d'), '(({a: [b] = $host.props.c}) => b + $host.props.d);');
+        equal(js('e => { const { x, ...y } = e; let z = a.b; z = x + y; { let a = 1; } return a + z; }'), [
+            '(e => {',
+            '  const {x, ...y} = e;',
+            '  let z = $get($host.props.a, "b");',
+            '  z = x + y;',
+            '  {',
+            '    let a = 1;',
+            '  }',
+            '  return $host.props.a + z;',
+            '});'
+        ].join('\n'));
+    });
+
+    it('should keep globals', () => {
+        deepEqual(getContext('JSON.stringify(Number(a)) + parseInt(b) + Date.now() + Array.isArray(c)'), {
+            JSON: undefined,
+            Number: undefined,
+            a: 'property',
+            parseInt: undefined,
+            b: 'property',
+            Date: undefined,
+            Array: undefined,
+            c: 'property'
+        });
+
+        deepEqual(collectIdContext(parseJS('i18n(Date) + window.foo', { globals: { i18n: true, Date: false } })), {
+            i18n: undefined,
+            Date: 'property',
+            window: 'property'
+        });
     });
 
     it('should upgrade to getters', () => {
@@ -75,4 +157,33 @@ describe('JS Parser', () => {
         equal(js('e => emit(foo)'), '(e => emit(this, $host.props.foo));');
         equal(js('e => foo(e.pageX)'), '(e => $call($host.props, "foo", [e.pageX]));');
     });
+
+    it('should parse optional chaining and nullish coalescing', () => {
+        equal(js(`user?.name ?? 'Guest'`), `$get($host.props.user, "name") ?? 'Guest';`);
+        equal(js('#items?.[0]?.title'), '$get($host.state.items, 0, "title");');
+        equal(js('@fn?.(1)'), '$call($scope, "fn", [1]);');
+        equal(js('#foo-bar ?? $baz'), '$host.state.foo-bar ?? $store.baz;');
+
+        const ast = parseJS('a?.b');
+        const stmt = ast.body[0] as ExpressionStatement;
+        equal(stmt.expression.type, 'ChainExpression');
+        equal((stmt.expression as ChainExpression).expression.type, 'ENDGetter');
+    });
+
+    it('should desugar pipes into calls', () => {
+        equal(js('item.title | truncate(10) | emit'),
+            'emit(this, $call($host.props, "truncate", [$get($host.props.item, "title"), 10]));');
+        equal(js('#value | emit("a") | @fmt'), '$call($scope, "fmt", [emit(this, $host.state.value, "a")]);');
+        equal(js('a || b | emit'), '$host.props.a || emit(this, $host.props.b);');
+        equal(js('a | emit ? 1 : 2'), 'emit(this, $host.props.a) ? 1 : 2;');
+        equal(js('a | utils.format("x")'), '$call($host.props.utils, "format", [$host.props.a, "x"]);');
+        equal(js('#items | Math.max'), 'Math.max($host.state.items);');
+
+        // Bitwise OR is kept for operands which are not function references
+        const binary = (code: string) => ((parseJS(code).body[0] as ExpressionStatement).expression as BinaryExpression);
+        equal(binary('flags | 4').type, 'BinaryExpression');
+        equal(binary('#x | (MAX)').operator, '|');
+        equal(binary('a | b?.()').type, 'BinaryExpression');
+        equal(js('a | (b) ? 1 : 2'), '$host.props.a | $host.props.b ? 1 : 2;');
+    });
 });
@@ -1,8 +1,14 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as assert from 'assert';
-import parse from '../src/index';
-import { ENDElement, Program } from '../src/ast';
+import parse, {
+    reparse, TextEdit, ParserOptions, ENDSyntaxError, StatementMap, DirectiveMap, tagBody, expectAttributeExpression, registerWalkers, walkFull,
+    base, findNodeBefore
+} from '../src/index';
+import {
+    Node, Literal, Identifier, ENDStatement, ENDElement, Program, ENDTemplate, ENDProgram, ENDIfStatement, ENDComment, ENDCData,
+    ENDProcessingInstruction, ENDChooseStatement, ENDAddClassStatement, ENDImport
+} from '../src/ast';
 
 describe('Template parser', () => {
     function read(fileName: string): string {
@@ -17,6 +23,25 @@ describe('Template parser', () => {
         assert.deepEqual(astJSON, JSON.parse(read('fixtures/template1-ast.json')));
     });
 
+    it('should locate attributes', () => {
+        // Attribute location starts at its name and ends at its value
+        const code = '<div  title="x" {name}={1} disabled on:click={a} e:if={b}>c</div>';
+        const elem = parse(code).body[0] as ENDElement;
+        assert.deepEqual(elem.attributes.map(attr => code.slice(attr.start, attr.end)), ['title="x"', '{name}={1}', 'disabled']);
+        assert.deepEqual(elem.attributes.map(attr => attr.loc.start.offset), [6, 16, 27]);
+        assert.deepEqual(elem.directives.map(dir => dir.loc.start.offset), [code.indexOf('on:click'), code.indexOf('e:if')]);
+    });
+
+    it('should parse unquoted attribute values', () => {
+        // Unquoted value ends at any whitespace, including line breaks
+        const code = '<p a=b\nc=d\r\ne=f\tg=h.i>x</p>';
+        const elem = parse(code).body[0] as ENDElement;
+        assert.deepEqual(elem.attributes.map(attr => [(attr.name as Identifier).name, (attr.value as Literal).value]), [
+            ['a', 'b'], ['c', 'd'], ['e', 'f'], ['g', 'h.i']
+        ]);
+        assert.deepEqual(elem.attributes.map(attr => code.slice(attr.value.start, attr.value.end)), ['b', 'd', 'f', 'h.i']);
+    });
+
     it('should parse styles & scripts', () => {
         const file = 'samples/resources.html';
         const ast = parse(read(file), file);
@@ -78,4 +103,298 @@ describe('Template parser', () => {
 
         assert.throws(() => parseTag('<div ref:foo=bar />'), 'Shorthand ref should not have value');
     });
+
+    it('should parse comments', () => {
+        const code = '<!-- top --><template><div><!--inner--><![CDATA[<b>]]></div><?pi?></template><!-- unclosed';
+
+        // Comments are ignored by default
+        let ast = parse(code);
+        assert.equal(ast.body.length, 1);
+        assert.equal(((ast.body[0] as ENDTemplate).body[0] as ENDElement).body.length, 0);
+
+        ast = parse(code, null, { includeComments: true });
+        assert.equal(ast.body.length, 3);
+
+        const top = ast.body[0] as ENDComment;
+        assert.equal(top.type, 'ENDComment');
+        assert.equal(top.value, ' top ');
+        assert.equal(top.start, 0);
+        assert.equal(top.end, 12);
+
+        const template = ast.body[1] as ENDTemplate;
+        const div = template.body[0] as ENDElement;
+        const pi = template.body[1] as ENDProcessingInstruction;
+        assert.equal(template.body.length, 2);
+        assert.equal(pi.type, 'ENDProcessingInstruction');
+        assert.equal(pi.value, 'pi');
+        assert.equal(pi.start, code.indexOf('<?pi'));
+        assert.equal(div.body.length, 2);
+        assert.equal((div.body[0] as ENDComment).value, 'inner');
+        assert.equal((div.body[1] as ENDCData).type, 'ENDCData');
+        assert.equal((div.body[1] as ENDCData).value, '<b>');
+
+        assert.equal((ast.body[2] as ENDComment).value, ' unclosed');
+        assert.equal(ast.body[2].end, code.length);
+
+        // Comments inside control statements with restricted content
+        const control = '<template><e:choose><!-- a --><e:when test={b}>c</e:when><![CDATA[d]]></e:choose>'
+            + '<e:add-class>e<!-- f -->{g}</e:add-class></template>';
+        const [choose, addClass] = (parse(control).body[0] as ENDTemplate).body as [ENDChooseStatement, ENDAddClassStatement];
+        assert.deepEqual(choose.cases.map(item => item.type), ['ENDChooseCase']);
+        assert.deepEqual(addClass.tokens.map(item => item.type), ['Literal', 'Program']);
+
+        const [chooseNotes, addClassNotes] = (parse(control, null, { includeComments: true }).body[0] as ENDTemplate).body as
+            [ENDChooseStatement, ENDAddClassStatement];
+        assert.deepEqual(chooseNotes.cases.map(item => item.type), ['ENDChooseCase']);
+        assert.deepEqual(chooseNotes.comments.map(item => item.type), ['ENDComment', 'ENDCData']);
+        assert.deepEqual(addClassNotes.tokens.map(item => item.type), ['Literal', 'Program']);
+        assert.deepEqual(addClassNotes.comments.map(item => item.value), [' f ']);
+        assert.equal(addClassNotes.comments[0].start, control.indexOf('<!-- f'));
+        assert.equal(choose.comments, undefined);
+    });
+
+    it('should handle whitespace', () => {
+        const texts = (node: { body: Node[] }) => node.body.map(item => item.type === 'Literal' ? (item as Literal).value : item.type);
+        const code = '<div>\n    <span>a</span> <b>b</b>\n</div>';
+
+        assert.deepEqual(texts(parse(code).body[0] as ENDElement), ['ENDElement', ' ', 'ENDElement']);
+        assert.deepEqual(texts(parse(code, null, { whitespace: 'strip' }).body[0] as ENDElement), ['ENDElement', 'ENDElement']);
+        assert.deepEqual(texts(parse(code, null, { whitespace: 'preserve' }).body[0] as ENDElement),
+            ['\n    ', 'ENDElement', ' ', 'ENDElement', '\n']);
+
+        // Preformatted elements and explicit mode override
+        let elem = parse('<pre>\n  <b>a</b>\n  <i>\n</i></pre>').body[0] as ENDElement;
+        assert.deepEqual(texts(elem), ['\n  ', 'ENDElement', '\n  ', 'ENDElement']);
+        assert.deepEqual(texts(elem.body[3] as ENDElement), ['\n']);
+
+        elem = parse('<div e:whitespace="preserve">\n<p e:whitespace=strip> <b>a</b> </p>\n</div>').body[0] as ENDElement;
+        assert.deepEqual(texts(elem), ['\n', 'ENDElement', '\n']);
+        assert.deepEqual(texts(elem.body[1] as ENDElement), ['ENDElement']);
+
+        assert.throws(() => parse('<div e:whitespace="foo"></div>'), /Whitespace mode must be one of/);
+    });
+
+    it('should decode character references', () => {
+        const ast = parse('<div title="a &amp; b" data-a=&lt;1 href="?a=1&copy=2">&lt;&#x2014;&#8212;&nbsp;&notit; &foo; &#0;&ampx</div>');
+        const elem = ast.body[0] as ENDElement;
+        const text = elem.body[0] as Literal;
+        const attrs = elem.attributes.map(attr => attr.value as Literal);
+
+        assert.equal(attrs[0].value, 'a & b');
+        assert.equal(attrs[0].raw, '"a &amp; b"');
+        assert.equal(attrs[1].value, '<1');
+        assert.equal(attrs[2].value, '?a=1&copy=2');
+
+        assert.equal(text.value, '<\u2014\u2014\u00a0\u00acit; &foo; \ufffd&x');
+        assert.equal(text.raw, '&lt;&#x2014;&#8212;&nbsp;&notit; &foo; &#0;&ampx');
+
+        // Plain text has no raw value
+        assert.equal(((parse('<p>foo</p>').body[0] as ENDElement).body[0] as Literal).raw, undefined);
+
+        assert.deepEqual(ast.diagnostics.map(d => [d.code, d.severity, d.start, d.end]), [
+            ['END_MISSING_ENTITY_SEMICOLON', 'warning', 80, 84],
+            ['END_UNKNOWN_ENTITY', 'warning', 88, 93],
+            ['END_INVALID_CHARACTER_REFERENCE', 'warning', 94, 98],
+            ['END_MISSING_ENTITY_SEMICOLON', 'warning', 98, 102]
+        ]);
+    });
+
+    it('should parse custom statements', () => {
+        const statements: StatementMap = {
+            repeat(scanner, openTag, next) {
+                const count = expectAttributeExpression(scanner, openTag, 'count');
+                return {
+                    type: 'ENDRepeatStatement',
+                    count: count.value,
+                    body: tagBody(scanner, openTag, next),
+                    ...scanner.loc(openTag.start)
+                } as Node as ENDStatement;
+            }
+        };
+
+        registerWalkers({
+            ENDRepeatStatement(node: any, state, c) {
+                c(node.count, state);
+                node.body.forEach((child: Node) => c(child, state));
+            }
+        });
+
+        const ast = parse('<template><e:repeat count={#n}><e:repeat count={@max}><b>{@index}</b></e:repeat></e:repeat></template>', null, {
+            statements
+        });
+        const repeat = (ast.body[0] as ENDTemplate).body[0] as any;
+        assert.equal(repeat.type, 'ENDRepeatStatement');
+        assert.equal(repeat.body[0].type, 'ENDRepeatStatement');
+        assert.equal(repeat.body[0].body[0].type, 'ENDElement');
+
+        const types: string[] = [];
+        walkFull(ast, node => types.push(node.type));
+        assert(types.includes('ENDRepeatStatement'));
+        assert(types.includes('ENDElement'));
+        assert(types.includes('Identifier'));
+
+        // Walkers are added to own base walker, inherited acorn-walk base is intact
+        assert.strictEqual(typeof base.ENDRepeatStatement, 'function');
+        assert.strictEqual(Object.getPrototypeOf(base).ENDRepeatStatement, undefined);
+
+        assert.throws(() => parse('<template><e:repeat></e:repeat></template>', null, { statements }), /Expecting "count" attribute/);
+    });
+
+    it('should parse custom directives', () => {
+        const directives: DirectiveMap = {
+            bind(dir, scanner) {
+                if (!dir.value || dir.value.type !== 'Program') {
+                    throw scanner.error('END_EXPECTED_EXPRESSION', 'Binding must be expression', dir);
+                }
+            },
+            use: null
+        };
+
+        const elem = parse('<input bind:value={#name} use:focus foo:bar=1 />', null, { directives }).body[0] as ENDElement;
+        assert.deepEqual(elem.directives.map(dir => `${dir.prefix}:${dir.name}`), ['bind:value', 'use:focus']);
+        assert.deepEqual(elem.attributes.map(attr => (attr.name as Identifier).name), ['foo:bar']);
+
+        // Without registration, directives are plain attributes
+        assert.equal((parse('<input bind:value={#name} />').body[0] as ENDElement).directives.length, 0);
+
+        assert.throws(() => parse('<input bind:value="name" />', null, { directives }), /Binding must be expression/);
+    });
+
+    it('should use custom namespace', () => {
+        const options = { namespace: 'end' };
+        const ast = parse('<template><end:if test={a}><div end:if={b} e:if={c} /></end:if><e:if test={d} /></template>', null, options);
+        const [ifStatement, elem] = (ast.body[0] as ENDTemplate).body;
+
+        assert.equal(ifStatement.type, 'ENDIfStatement');
+        const inner = (ifStatement as ENDIfStatement).consequent[0] as ENDIfStatement;
+        assert.equal(inner.type, 'ENDIfStatement');
+
+        // Directives of custom namespace use default prefix in AST
+        const div = inner.consequent[0] as ENDElement;
+        assert.deepEqual(div.directives.map(dir => dir.prefix), ['e']);
+        assert.deepEqual(div.attributes.map(attr => (attr.name as Identifier).name), ['e:if']);
+
+        // Default namespace is a regular element now
+        assert.equal(elem.type, 'ENDElement');
+
+        assert.throws(() => parse('<template><end:choose><e:when test={a} /></end:choose></template>', null, options),
+            /expecting <end:when> or <end:otherwise>/);
+    });
+
+    it('should resolve import names', () => {
+        const imports = (src: string, options?: ParserOptions) => parse(src, null, options).body as ENDImport[];
+        const code = '<link rel="import" href="./my-comp.html" /><link rel="import" href="./comp/index.html" as="x-comp" />';
+
+        assert.deepEqual(imports(code).map(item => [item.name, item.href, item.explicit]), [
+            ['my-comp', './my-comp.html', false],
+            ['x-comp', './comp/index.html', true]
+        ]);
+
+        const resolveImportName = (href: string) => href.startsWith('@ui/') ? `ui-${href.slice(4)}` : null;
+        assert.deepEqual(imports('<link rel="import" href="@ui/button" /><link rel="import" href="./my-comp.html" />', {
+            resolveImportName
+        }).map(item => item.name), ['ui-button', 'my-comp']);
+
+        assert.throws(() => parse('<link rel="import" href="./comp/index.html" />'), (err: ENDSyntaxError) => {
+            return err.code === 'END_INVALID_IMPORT_NAME' && err.start === 24 && err.data.name === 'comp';
+        });
+    });
+
+    it('should reparse edited template', () => {
+        const json = (node: ENDProgram) => JSON.parse(JSON.stringify(node));
+        const edit = (text: string, changes: TextEdit[]) => {
+            changes.slice().sort((a, b) => b.start - a.start).forEach(e => {
+                text = text.slice(0, e.start) + e.text + text.slice(e.end);
+            });
+            return text;
+        };
+
+        const file = 'samples/template1.html';
+        const code = read(file);
+        const ast = parse(code, file);
+        const tmpl = ast.body[0] as ENDTemplate;
+        const [h1, ifStatement] = tmpl.body as ENDIfStatement[];
+        const div = ifStatement.consequent[0];
+
+        // Edit text inside `<div>`: only `<div>` should be updated
+        let pos = code.indexOf('Foo is');
+        let edits: TextEdit[] = [{ start: pos, end: pos + 3, text: 'Bar\n  is' }];
+        let nextCode = edit(code, edits);
+        let nextAst = reparse(ast, nextCode, edits);
+        assert.deepEqual(json(nextAst), json(parse(nextCode, file)));
+        assert.strictEqual(tmpl.body[0], h1);
+        assert.strictEqual(tmpl.body[1], ifStatement);
+        assert.notStrictEqual(ifStatement.consequent[0], div);
+
+        // Edit inside `<h1>` should shift all nodes after it
+        pos = code.indexOf('Hello world');
+        edits = [{ start: pos + 5, end: pos + 5, text: ' there,' }, { start: pos + 6, end: pos + 11, text: 'World' }];
+        nextCode = edit(nextCode, edits);
+        nextAst = reparse(nextAst, nextCode, edits);
+        assert.deepEqual(json(nextAst), json(parse(nextCode, file)));
+        assert.strictEqual(tmpl.body[1], ifStatement);
+
+        // Edits of elements with `e:if` directive
+        [
+            '<template><section><div e:if={a} title="x"><span>foo</span></div></section></template>',
+            '<template><section><div e:if={a} e:if={b} title="x"><span>foo</span></div></section></template>'
+        ].forEach(source => {
+            ['x', 'foo'].forEach(fragment => {
+                const prev = parse(source, file);
+                const start = source.indexOf(fragment);
+                const changes = [{ start, end: start + fragment.length, text: 'yy' }];
+                const next = edit(source, changes);
+                assert.deepEqual(json(reparse(prev, next, changes)), json(parse(next, file)), `${source}: ${fragment}`);
+            });
+        });
+
+        // Warnings should not disable incremental update
+        const warned = '<template><p>&foo;</p><div>a</div><p>&bar;</p></template>';
+        const prevAst = parse(warned, file);
+        const [p1, , p2] = (prevAst.body[0] as ENDTemplate).body;
+        [
+            [warned.indexOf('a</div>'), 'b\nc'],
+            [warned.indexOf('&foo;') + 1, 'baz'],
+            [warned.indexOf('&foo;'), '&amp;']
+        ].forEach(([start, text]: [number, string]) => {
+            const changes = [{ start, end: start + 1, text }];
+            const next = edit(warned, changes);
+            const result = reparse(parse(warned, file), next, changes);
+            assert.deepEqual(json(result), json(parse(next, file)), text);
+        });
+
+        pos = warned.indexOf('a</div>');
+        edits = [{ start: pos, end: pos + 1, text: 'b\nc' }];
+        nextAst = reparse(prevAst, edit(warned, edits), edits);
+        const tmplBody = (nextAst.body[0] as ENDTemplate).body;
+        assert.strictEqual(tmplBody[0], p1);
+        assert.strictEqual(tmplBody[2], p2);
+        assert.deepEqual(nextAst.diagnostics.map(d => d.code), ['END_UNKNOWN_ENTITY', 'END_UNKNOWN_ENTITY']);
+    });
+
+    it('should walk all node types', () => {
+        // Every node type declared in AST must have a walker
+        const types = new Set<string>();
+        const re = /^\s+type: '(\w+)';$/gm;
+        const source = read('../src/ast.ts');
+        let m: RegExpExecArray;
+        while (m = re.exec(source)) {
+            types.add(m[1]);
+        }
+
+        types.forEach(type => assert.strictEqual(typeof base[type], 'function', `No walker for ${type}`));
+
+        const code = '<template><e:choose><e:when test={a}><div ref={b} title /></e:when><e:otherwise>{c}</e:otherwise></e:choose></template>';
+        const ast = parse(code);
+        const visited: string[] = [];
+        walkFull(ast, (node: Node) => {
+            if (node.type === 'Identifier') {
+                visited.push((node as Identifier).name);
+            }
+        });
+        assert.deepEqual(visited, ['a', 'div', 'title', 'b', 'c']);
+
+        const found = findNodeBefore(ast, code.indexOf('{c}'), 'ENDChooseCase');
+        assert.strictEqual(found.node.start, code.indexOf('<e:when'));
+    });
 });
@@ -0,0 +1,103 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { equal } from 'assert';
+import parse, { parseJS, print, format } from '../src/index';
+import { prefix } from '../src/elements/utils';
+
+describe('Template printer', () => {
+    const options = { helpers: ['emit'] };
+    const reprint = (code: string) => print(parse(code, null, options));
+    const js = (code: string) => print(parseJS(code, options));
+
+    it('should print template', () => {
+        const code = fs.readFileSync(path.resolve(__dirname, 'samples/template1.html'), 'utf8');
+        equal(reprint(code),
+            `<template><h1>Hello world</h1><${prefix}:if test={foo == 1}><div class="sample">Foo is {foo}</div></${prefix}:if></template>`);
+
+        equal(reprint('<link rel="import" href="./my-comp.html" /><link rel="import" href="./comp.html" as="x-comp" />'),
+            '<link rel="import" href="./my-comp.html" />\n<link rel="import" href="./comp.html" as="x-comp" />');
+        equal(reprint('<div a=\'b\' c=1 d={"e"} title="a {@b.c} d" ref:foo on:click={e => #count++}><x-comp {attr}=1 /></div>'),
+            '<div a=\'b\' c=1 d="e" title="a {@b.c} d" ref="foo" on:click={e => #count++}><x-comp {attr}=1 /></div>');
+        equal(reprint(`<template partial:btn a b=2><button ${prefix}:if={$enabled}>{{ @a }}</button></template>`),
+            `<template partial:btn a b=2><button ${prefix}:if={$enabled}>{{@a}}</button></template>`);
+        equal(reprint('<style type="scss">.a {}</style><script src="./foo.js"></script>'),
+            '<style type="scss">.a {}</style>\n<script src="./foo.js"></script>');
+    });
+
+    it('should print control statements', () => {
+        const code = `<template><${prefix}:variable a={#x + 1} b='str' />`
+            + `<${prefix}:choose><${prefix}:when test={a}>A</${prefix}:when><${prefix}:otherwise>B</${prefix}:otherwise></${prefix}:choose>`
+            + `<${prefix}:for-each select={items} key={@index}>{@value.name}</${prefix}:for-each>`
+            + `<${prefix}:attribute a=1 class:b /><${prefix}:add-class>c {d}</${prefix}:add-class><partial:btn a=1 /></template>`;
+        equal(reprint(code), code);
+    });
+
+    it('should print upgraded expressions', () => {
+        equal(js('foo.bar[1].baz'), '{foo.bar[1].baz}');
+        equal(js('foo["bar"]'), '{foo["bar"]}');
+        equal(js('#a.b.c(1, @d)'), '{#a.b.c(1, @d)}');
+        equal(js('foo() + $bar()'), '{foo() + $bar()}');
+        equal(js('emit(foo)'), '{emit(foo)}');
+        equal(js('foo.bar[a => a > #c].baz'), '{foo.bar[a => a > #c].baz}');
+        equal(js('foo[[a => a.b]]'), '{foo[[a => a.b]]}');
+        equal(js('(a + b) * -(-c) ? d : (e, f)'), '{(a + b) * - -c ? d : (e, f)}');
+        equal(js('({ a, b: [c] } = d) => ({ a })'), '{({ a, b: [c] } = d) => ({ a })}');
+        equal(js('(a ?? b) || Math?.max(c ?? d)'), '{(a ?? b) || Math?.max(c ?? d)}');
+        equal(reprint('<p>{user?.name ?? "Guest"}</p>'), '<p>{user?.name ?? "Guest"}</p>');
+        equal(js('a?.b?.(c)'), '{a?.b?.(c)}');
+        equal(js('a?.[0]'), '{a?.[0]}');
+        equal(js('(-a) ** 2 + (a ** -b) ** c'), '{(-a) ** 2 + (a ** -b) ** c}');
+        equal(js('(a?.b).c + (#d?.e)() + f?.g.h'), '{(a?.b).c + (#d?.e)() + f?.g.h}');
+        equal(js('#a.b?.[@c].d'), '{#a.b?.[@c].d}');
+        equal(js('foo?.() + #bar.baz?.()'), '{foo?.() + #bar.baz?.()}');
+        equal(js('item.title | truncate(10) | #upper'), '{item.title | truncate(10) | #upper}');
+        equal(js('(a ?? b | emit) * 2 || c | emit | (d)'), '{(a ?? b | emit) * 2 || c | emit | (d)}');
+        equal(js('#items | @list.sort(1) | Math.max | (#a.b) | (c[0])'), '{#items | @list.sort(1) | Math.max | (#a.b) | (c[0])}');
+    });
+
+    it('should format template', () => {
+        const code = `<template><${prefix}:variable a={#x+1} b='str' /><div title='a' data-n=5 on:click={evt => #count++}>`
+            + `<my-comp {attr}=1 />{{ html }}</div><${prefix}:choose><${prefix}:when test={a}><p>A <b>bold</b></p></${prefix}:when>`
+            + `<${prefix}:otherwise><br/></${prefix}:otherwise></${prefix}:choose></template><style>.a{}</style>`;
+        const expected = [
+            '<template>',
+            `    <${prefix}:variable a={#x + 1} b="str" />`,
+            '    <div title="a" data-n="5" on:click={evt => #count++}><my-comp {attr}="1" />{{html}}</div>',
+            `    <${prefix}:choose>`,
+            `        <${prefix}:when test={a}>`,
+            '            <p>A <b>bold</b></p>',
+            `        </${prefix}:when>`,
+            `        <${prefix}:otherwise>`,
+            '            <br />',
+            `        </${prefix}:otherwise>`,
+            `    </${prefix}:choose>`,
+            '</template>',
+            '<style>.a{}</style>',
+            ''
+        ].join('\n');
+
+        equal(format(code), expected);
+        equal(format('<template><pre><b>a</b></pre></template>'), '<template>\n    <pre><b>a</b></pre>\n</template>\n');
+        equal(format('<p title=\'&quot;a&quot;\'>&lt;b&gt; &amp; {c}</p>'), '<p title="&quot;a&quot;">&lt;b&gt; &amp; {c}</p>\n');
+        equal(format('<template><x:if test={a}><b x:if={c} /></x:if></template>', { namespace: 'x' }),
+            '<template>\n    <x:if test={a}>\n        <b x:if={c} />\n    </x:if>\n</template>\n');
+        equal(format('<?xml version="1.0"?><!-- a --><template><div><!-- b --><br /></div></template>'),
+            '<?xml version="1.0"?>\n<!-- a -->\n<template>\n    <div>\n        <!-- b -->\n        <br />\n    </div>\n</template>\n');
+        equal(format('<template><e:choose><!-- note --><e:when test={a}>x</e:when></e:choose><e:add-class><!-- c -->foo</e:add-class></template>'),
+            '<template>\n    <e:choose>\n        <!-- note -->\n        <e:when test={a}>x</e:when>\n    </e:choose>\n'
+            + '    <e:add-class><!-- c -->foo</e:add-class>\n</template>\n');
+        equal(format(expected), expected);
+
+        equal(format('<template><div a="1" b=\'2\' c=3><span>x</span></div></template>', { printWidth: 20, indent: 2 }),
+            '<template>\n  <div\n    a="1"\n    b="2"\n    c="3"\n  >\n    <span>x</span>\n  </div>\n</template>\n');
+
+        // Program-level whitespace mode
+        const preserved = '<template><div><span>a</span><b /></div>\n<e:if test={a}>\n<br /></e:if></template>\n';
+        equal(format(preserved, { whitespace: 'preserve' }), preserved);
+        equal(format('<template><div e:whitespace="condense"><b /></div></template>', { whitespace: 'preserve' }),
+            '<template><div e:whitespace="condense"><b /></div></template>\n');
+        equal(format('<template><p title={user?.name}>{a?.b?.(c) ?? #d?.[0]}</p><e:if test={#items?.length}><br /></e:if></template>'),
+            '<template>\n    <p title={user?.name}>{a?.b?.(c) ?? #d?.[0]}</p>\n'
+            + '    <e:if test={#items?.length}>\n        <br />\n    </e:if>\n</template>\n');
+    });
+});
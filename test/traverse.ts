@@ -0,0 +1,64 @@
+import { equal, deepEqual, throws } from 'assert';
+import parse, { traverse, print, NodePath, ENDElement, ENDChooseCase, Literal, Identifier, Node } from '../src/index';
+
+describe('Traverse', () => {
+    it('should modify tree during traversal', () => {
+        const ast = parse(`<template><i /><b /><i /><e:choose><e:when test={#a.b.c}>a</e:when><e:otherwise>b</e:otherwise></e:choose>`
+            + `<div class="a {b} c" /></template>`);
+        const visited: string[] = [];
+
+        traverse(ast, {
+            ENDElement(path: NodePath<ENDElement>) {
+                const name = path.node.name.name;
+                visited.push(name);
+                if (name === 'i') {
+                    path.remove();
+                } else if (name === 'b') {
+                    path.insertBefore({ type: 'Literal', value: 'before' } as Literal);
+                    path.insertAfter({ type: 'Literal', value: 'after' } as Literal);
+                    path.skip();
+                }
+            },
+            ENDChooseCase(path: NodePath<ENDChooseCase>) {
+                if (!path.node.test) {
+                    equal(path.key, 'cases');
+                    equal(path.parent.type, 'ENDChooseStatement');
+                    path.remove();
+                }
+            },
+            Literal: {
+                exit(path: NodePath<Literal>) {
+                    if (path.key === 'path' && path.node.value === 'b') {
+                        // Fragment of getter path
+                        path.replaceWith({ type: 'Literal', value: 'x' } as Literal);
+                    } else if (path.parent.type === 'ENDAttributeValueExpression' && path.index === 0) {
+                        path.remove();
+                    }
+                }
+            },
+            Identifier(path: NodePath<Identifier>) {
+                if (path.parent.type === 'ExpressionStatement') {
+                    visited.push(path.node.name);
+                    throws(() => path.insertAfter(path.node), /not in a list/);
+                }
+            }
+        });
+
+        deepEqual(visited, ['i', 'b', 'i', 'div', 'b']);
+        equal(print(ast), '<template>before<b />after<e:choose><e:when test={#a.x.c}>a</e:when></e:choose><div class="{b} c" /></template>');
+    });
+
+    it('should traverse custom nodes', () => {
+        const types: string[] = [];
+        const node = { type: 'Custom', value: { type: 'Literal', value: 1 }, items: [{ type: 'Identifier', name: 'a' }] } as Node;
+        traverse(node, {
+            Literal(path) {
+                types.push(path.node.type, path.key);
+            },
+            Identifier(path) {
+                types.push(path.node.type, path.key);
+            }
+        });
+        deepEqual(types, ['Literal', 'value', 'Identifier', 'items']);
+    });
+});